@@ -3,6 +3,12 @@ import type { BasesPropertyId, ViewOption } from "obsidian";
 import { mount, unmount } from "svelte";
 import { writable, type Writable } from "svelte/store";
 import ListView from "./gymView.svelte";
+import type { GymViewCommands, RecentViews } from "../viewCommands";
+
+// Per-view configuration from the Bases view options menu.
+export interface GymViewOptions {
+  dataFolder?: string;
+}
 
 export const GymViewType = "gym-view";
 export class GymView extends BasesView {
@@ -11,27 +17,37 @@ export class GymView extends BasesView {
   private component?: Record<string, any>;
   private entriesStore: Writable<BasesEntry[]>;
   private propertiesStore: Writable<BasesPropertyId[]>;
+  private optionsStore: Writable<GymViewOptions>;
 
   private debugLog(message: string, ...args: unknown[]): void {
     console.log(`[GymView] ${message}`, ...args);
   }
 
-  constructor(controller: QueryController, scrollEl: HTMLElement) {
+  constructor(
+    controller: QueryController,
+    scrollEl: HTMLElement,
+    private recentViews: RecentViews<GymView>,
+  ) {
     super(controller);
     this.containerEl = scrollEl.createDiv({ cls: "is-loading", attr: { tabIndex: 0 } });
     // Initialize stores with empty data
     this.entriesStore = writable([]);
     this.propertiesStore = writable([]);
+    this.optionsStore = writable({});
   }
 
   onload(): void {
     // Create Svelte component once on load
     this.debugLog("onload");
     this.initializeComponent();
+    this.recentViews.touch(this);
+    this.registerDomEvent(this.containerEl, "focusin", () => this.recentViews.touch(this));
+    this.registerDomEvent(this.containerEl, "pointerdown", () => this.recentViews.touch(this));
   }
 
   onunload() {
     this.debugLog("onunload");
+    this.recentViews.remove(this);
     // Only destroy on unload
     if (this.component) {
       unmount(this.component);
@@ -41,6 +57,11 @@ export class GymView extends BasesView {
 
   onResize(): void {}
 
+  // What the component exports for the palette commands.
+  get commands(): GymViewCommands | undefined {
+    return this.component as GymViewCommands | undefined;
+  }
+
   public focus(): void {
     this.containerEl.focus({ preventScroll: true });
   }
@@ -69,6 +90,7 @@ export class GymView extends BasesView {
         props: {
           entries: this.entriesStore,
           properties: this.propertiesStore,
+          options: this.optionsStore,
           config: this.config,
           app: this.app,
           renderContext: this.app.renderContext || undefined,
@@ -102,9 +124,23 @@ export class GymView extends BasesView {
     // Update stores - component stays mounted and reacts to changes
     this.entriesStore.set(entries);
     this.propertiesStore.set(properties);
+    this.optionsStore.set(this.readViewOptions());
+  }
+
+  private readViewOptions(): GymViewOptions {
+    const dataFolder = this.config?.get("dataFolder");
+    const isUsable = typeof dataFolder === "string" && dataFolder.trim() !== "";
+    return { dataFolder: isUsable ? dataFolder.trim() : undefined };
   }
 
   static getViewOptions(): ViewOption[] {
-    return [];
+    return [
+      {
+        type: "folder",
+        key: "dataFolder",
+        displayName: "Gym data folder",
+        placeholder: "Folder of the first entry",
+      },
+    ];
   }
 }
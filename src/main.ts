@@ -1,32 +1,201 @@
-import { Plugin, TFile } from "obsidian";
+import { Notice, Plugin, TFile } from "obsidian";
+import { writable, type Writable } from "svelte/store";
 import { TargetsView, TargetsViewType } from "./targetView/targetView";
 import { GymView, GymViewType } from "./gymView/gymView";
+import {
+  AdvancedListSettingTab,
+  DEFAULT_SETTINGS,
+  type AdvancedListSettings,
+} from "./settings";
+import { mutationHistory } from "./mutations";
+import { RecentViews, type GymViewCommands, type TargetViewCommands } from "./viewCommands";
+import { TagFilterSuggestModal } from "./targetView/tags/TagFilterSuggestModal";
 
 export default class ObsidianAdvancedListPlugin extends Plugin {
+  settings: AdvancedListSettings = { ...DEFAULT_SETTINGS };
+  // Views subscribe to this rather than holding `settings` directly, so a
+  // change in the settings tab reaches already-open views without a reload.
+  settingsStore: Writable<AdvancedListSettings> = writable({ ...DEFAULT_SETTINGS });
+  // Most recently used view of each kind, for the palette commands.
+  private targetsViews = new RecentViews<TargetsView>();
+  private gymViews = new RecentViews<GymView>();
+
   async onload() {
     console.log("onload");
+    await this.loadSettings();
+    this.addSettingTab(new AdvancedListSettingTab(this.app, this));
+
     this.registerBasesView(TargetsViewType, {
       name: "Targets",
       icon: "lucide-target",
-      factory: (controller, containerEl) => new TargetsView(controller, containerEl),
+      factory: (controller, containerEl) =>
+        new TargetsView(controller, containerEl, this.settingsStore, this.targetsViews),
       options: TargetsView.getViewOptions,
     });
 
     this.registerBasesView(GymViewType, {
       name: "Gym",
       icon: "lucide-dumbbell",
-      factory: (controller, containerEl) => new GymView(controller, containerEl),
+      factory: (controller, containerEl) => new GymView(controller, containerEl, this.gymViews),
       options: GymView.getViewOptions,
     });
+
+    this.registerUndoCommands();
+    this.registerTargetsCommands();
+    this.registerGymCommands();
+  }
+
+  // Available only while a Targets view is open. `run` returns false when
+  // the command had nothing to act on, which is reported as `hint`.
+  private addTargetsCommand(
+    id: string,
+    name: string,
+    run: (commands: TargetViewCommands) => boolean | void,
+    hint = "",
+  ) {
+    this.addCommand({
+      id,
+      name,
+      checkCallback: (checking) => {
+        const commands = this.targetsViews.current?.commands;
+        if (!commands) return false;
+        if (!checking && run(commands) === false && hint) new Notice(hint);
+        return true;
+      },
+    });
+  }
+
+  private registerTargetsCommands() {
+    const noCard = "Focus or click a card in the Targets view first.";
+    this.addTargetsCommand(
+      "targets-focus-search",
+      "Targets: Focus search",
+      (c) => c.focusSearch(),
+      "The filter bar is hidden in this view.",
+    );
+    this.addTargetsCommand("targets-cycle-target", "Targets: Cycle active target", (c) =>
+      c.cycleActiveTarget(),
+    );
+    this.addTargetsCommand("targets-clear-filters", "Targets: Clear all filters", (c) =>
+      c.clearAllFilters(),
+    );
+    this.addTargetsCommand(
+      "targets-toggle-tag-filter",
+      "Targets: Toggle tag filter…",
+      (c) => {
+        const choices = c.tagFilterChoices();
+        if (choices.length === 0) return false;
+        new TagFilterSuggestModal(this.app, choices, (tag) => c.toggleTagFilter(tag)).open();
+      },
+      "This list has no tags yet.",
+    );
+    this.addTargetsCommand("targets-done-history", "Targets: Show done history", (c) =>
+      c.showDoneHistory(),
+    );
+    this.addTargetsCommand(
+      "targets-mark-card-read",
+      "Targets: Mark focused card read",
+      (c) => c.markFocusedCardRead(),
+      `${noCard} Marking read also needs an active target.`,
+    );
+    this.addTargetsCommand(
+      "targets-mark-card-done",
+      "Targets: Mark focused card done",
+      (c) => c.markFocusedCardDone(),
+      `${noCard} A card that is already done stays done.`,
+    );
+    this.addTargetsCommand(
+      "targets-open-card-link",
+      "Targets: Open focused card's link",
+      (c) => c.openFocusedCardLink(),
+      `${noCard} It also needs a link.`,
+    );
+  }
+
+  private addGymCommand(
+    id: string,
+    name: string,
+    run: (commands: GymViewCommands) => boolean | void,
+    hint = "",
+  ) {
+    this.addCommand({
+      id,
+      name,
+      checkCallback: (checking) => {
+        const commands = this.gymViews.current?.commands;
+        if (!commands) return false;
+        if (!checking && run(commands) === false && hint) new Notice(hint);
+        return true;
+      },
+    });
+  }
+
+  private registerGymCommands() {
+    this.addGymCommand(
+      "gym-add-set",
+      "Gym: Add set to expanded exercise",
+      (c) => c.addSetToExpandedExercise(),
+      "Expand an exercise and pick or type a value first.",
+    );
+    this.addGymCommand("gym-create-today", "Gym: Create today's session", (c) => {
+      c.createTodaySession().catch((e) => console.error("[main] gym session", e));
+    });
+  }
+
+  // Undo/redo for frontmatter written from the views (see mutations.ts).
+  // The hotkeys stay clear of the editor's own Mod+Z / Mod+Shift+Z.
+  private registerUndoCommands() {
+    const history = mutationHistory(this.app);
+    this.addCommand({
+      id: "undo-list-change",
+      name: "Undo last list change",
+      hotkeys: [{ modifiers: ["Mod", "Alt"], key: "z" }],
+      checkCallback: (checking) => {
+        if (!history.canUndo) return false;
+        if (!checking) {
+          history
+            .undo()
+            .then((step) => step && new Notice(`Undone: ${step.label}`))
+            .catch((e) => console.error("[main] undo", e));
+        }
+        return true;
+      },
+    });
+    this.addCommand({
+      id: "redo-list-change",
+      name: "Redo list change",
+      hotkeys: [{ modifiers: ["Mod", "Alt", "Shift"], key: "z" }],
+      checkCallback: (checking) => {
+        if (!history.canRedo) return false;
+        if (!checking) {
+          history
+            .redo()
+            .then((step) => step && new Notice(`Redone: ${step.label}`))
+            .catch((e) => console.error("[main] redo", e));
+        }
+        return true;
+      },
+    });
   }
 
   onunload() {
     console.log("onunload");
+    mutationHistory(this.app).clear();
     // NOTE: For debugging hot reloading
     console.clear();
     // this.reopenActiveView();
   }
 
+  async loadSettings() {
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.settingsStore.set({ ...this.settings });
+  }
+
+  async saveSettings() {
+    await this.saveData(this.settings);
+    this.settingsStore.set({ ...this.settings });
+  }
+
   // Only for hot reloading
   async reopenActiveView() {
     const activeFile = this.app.workspace.activeEditor?.file;
@@ -0,0 +1,66 @@
+// One metadataCache "changed" listener per app, fanned out by path. Each card
+// in a Targets list used to register its own listener, so every write in the
+// vault ran one callback per card - hundreds on a big list, most of them only
+// to compare a path. Now a card subscribes to its own note and hears nothing
+// else; whole-vault subscribers pass null.
+//
+// The Obsidian listener is registered with the first subscriber and dropped
+// with the last, so nothing outlives the views that asked for it.
+import type { App, CachedMetadata, EventRef, TFile } from "obsidian";
+
+export type MetadataListener = (file: TFile, cache: CachedMetadata) => void;
+
+class MetadataChanges {
+  private byPath = new Map<string, Set<MetadataListener>>();
+  private anyPath = new Set<MetadataListener>();
+  private ref: EventRef | null = null;
+
+  constructor(private app: App) {}
+
+  subscribe(path: string | null, listener: MetadataListener): () => void {
+    let listeners = this.anyPath;
+    if (path !== null) {
+      listeners = this.byPath.get(path) ?? new Set();
+      this.byPath.set(path, listeners);
+    }
+    listeners.add(listener);
+    if (!this.ref) {
+      this.ref = this.app.metadataCache.on("changed", (file, _data, cache) =>
+        this.dispatch(file, cache),
+      );
+    }
+    return () => {
+      listeners.delete(listener);
+      if (path !== null && listeners.size === 0) this.byPath.delete(path);
+      if (this.ref && this.anyPath.size === 0 && this.byPath.size === 0) {
+        this.app.metadataCache.offref(this.ref);
+        this.ref = null;
+      }
+    };
+  }
+
+  // Copies before calling: a listener may unsubscribe (its card unmounting)
+  // while the change is being delivered.
+  private dispatch(file: TFile, cache: CachedMetadata): void {
+    for (const listener of [...(this.byPath.get(file.path) ?? [])]) listener(file, cache);
+    for (const listener of [...this.anyPath]) listener(file, cache);
+  }
+}
+
+const hubs = new WeakMap<App, MetadataChanges>();
+
+// Calls `listener` when the metadata of the note at `path` changes, or of any
+// note when `path` is null. Returns the unsubscribe function, which suits a
+// Svelte $effect cleanup as is.
+export function watchMetadata(
+  app: App,
+  path: string | null,
+  listener: MetadataListener,
+): () => void {
+  let hub = hubs.get(app);
+  if (!hub) {
+    hub = new MetadataChanges(app);
+    hubs.set(app, hub);
+  }
+  return hub.subscribe(path, listener);
+}
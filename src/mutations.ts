@@ -0,0 +1,247 @@
+// Undo/redo for frontmatter writes made from the views.
+//
+// Every write goes through `record`: it runs the caller's callback inside the
+// store's own write (processFrontMatter, or the view-config path in
+// updateListState), snapshots the object before and after, and keeps only
+// the keys that actually changed. Undo writes the `before` values back, redo
+// the `after` ones - but only for keys still holding what this step left
+// there, so an edit made by hand in between is never clobbered.
+//
+// Writes that belong together (a batch action, a vault-wide tag rename) share
+// one MutationStep and undo as one. The history lives per App rather than per
+// view, so an undo from the command palette reaches whichever view wrote.
+import { Notice, type App, type TFile } from "obsidian";
+
+type Frontmatter = Record<string, any>;
+
+// Applies `fn` to one store's frontmatter-shaped object and resolves once the
+// write has landed.
+export type FrontmatterWrite = (fn: (fm: Frontmatter) => void) => Promise<void>;
+
+interface KeyChange {
+  key: string;
+  // undefined means the key was absent.
+  before: unknown;
+  after: unknown;
+}
+
+interface StoreChange {
+  // Stable identity of the store (`note:<path>`, `view`), used to fold
+  // repeated writes to one store within a step.
+  target: string;
+  write: FrontmatterWrite;
+  keys: KeyChange[];
+}
+
+export interface MutationStep {
+  label: string;
+  changes: StoreChange[];
+}
+
+const HISTORY_LIMIT = 100;
+const UNDO_NOTICE_MS = 6000;
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffFrontmatter(before: Frontmatter, after: Frontmatter): KeyChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: KeyChange[] = [];
+  for (const key of keys) {
+    if (!sameValue(before[key], after[key])) {
+      changes.push({ key, before: before[key], after: clone(after[key]) });
+    }
+  }
+  return changes;
+}
+
+// Folds a new change into the step: a key written twice keeps its first
+// `before` and its latest `after`.
+function mergeInto(step: MutationStep, change: StoreChange): void {
+  const existing = step.changes.find((c) => c.target === change.target);
+  if (!existing) {
+    step.changes.push(change);
+    return;
+  }
+  for (const key of change.keys) {
+    const prior = existing.keys.find((k) => k.key === key.key);
+    if (prior) prior.after = key.after;
+    else existing.keys.push(key);
+  }
+}
+
+// Writes `side` of every change back, skipping keys that have moved on from
+// the other side since. Stores are restored in reverse order.
+async function replay(step: MutationStep, side: "before" | "after"): Promise<void> {
+  const expected = side === "before" ? "after" : "before";
+  for (const change of [...step.changes].reverse()) {
+    await change.write((fm) => {
+      for (const key of change.keys) {
+        if (!sameValue(fm[key.key], key[expected])) continue;
+        const value = key[side];
+        if (value === undefined) delete fm[key.key];
+        else fm[key.key] = clone(value);
+      }
+    });
+  }
+}
+
+export class MutationHistory {
+  private undoStack: MutationStep[] = [];
+  private redoStack: MutationStep[] = [];
+
+  record(
+    target: string,
+    write: FrontmatterWrite,
+    fn: (fm: Frontmatter) => void,
+    step: MutationStep,
+  ): Promise<void> {
+    let keys: KeyChange[] = [];
+    return write((fm) => {
+      const before = clone(fm);
+      fn(fm);
+      keys = diffFrontmatter(before, fm);
+    }).then(() => {
+      if (keys.length === 0) return;
+      mergeInto(step, { target, write, keys });
+      if (!this.undoStack.includes(step)) {
+        this.undoStack.push(step);
+        if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+        this.redoStack = [];
+      }
+    });
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  isLatest(step: MutationStep): boolean {
+    return this.undoStack[this.undoStack.length - 1] === step;
+  }
+
+  // Resolves to the step undone, or null when there was nothing to undo.
+  // A replay that fails (a note deleted or locked meanwhile) puts the step
+  // back where it was, so it can be retried - replay skips keys that already
+  // moved, so a partly applied step is safe to run again.
+  async undo(): Promise<MutationStep | null> {
+    const step = this.undoStack.pop();
+    if (!step) return null;
+    try {
+      await replay(step, "before");
+    } catch (e) {
+      this.undoStack.push(step);
+      new Notice(`Couldn't undo: ${step.label}`);
+      throw e;
+    }
+    this.redoStack.push(step);
+    return step;
+  }
+
+  async redo(): Promise<MutationStep | null> {
+    const step = this.redoStack.pop();
+    if (!step) return null;
+    try {
+      await replay(step, "after");
+    } catch (e) {
+      this.redoStack.push(step);
+      new Notice(`Couldn't redo: ${step.label}`);
+      throw e;
+    }
+    this.undoStack.push(step);
+    return step;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
+
+const histories = new WeakMap<App, MutationHistory>();
+
+export function mutationHistory(app: App): MutationHistory {
+  let history = histories.get(app);
+  if (!history) {
+    history = new MutationHistory();
+    histories.set(app, history);
+  }
+  return history;
+}
+
+export function undoStep(label: string): MutationStep {
+  return { label, changes: [] };
+}
+
+// processFrontMatter, recorded. A string label makes a step of its own.
+export function writeFrontmatter(
+  app: App,
+  file: TFile,
+  fn: (fm: Frontmatter) => void,
+  step: MutationStep | string,
+): Promise<void> {
+  return mutationHistory(app).record(
+    `note:${file.path}`,
+    (apply) => app.fileManager.processFrontMatter(file, apply),
+    fn,
+    typeof step === "string" ? undoStep(step) : step,
+  );
+}
+
+const fileQueues = new WeakMap<App, Map<string, Promise<void>>>();
+
+// writeFrontmatter, but after every earlier queued write to the same note has
+// settled. For editors that can fire several writes to one note in quick
+// succession (a property edit, then another before the first has landed):
+// processFrontMatter calls on one file may otherwise interleave and clobber
+// each other. A failed write is logged and doesn't hold up the next one.
+export function queueFrontmatterWrite(
+  app: App,
+  file: TFile,
+  fn: (fm: Frontmatter) => void,
+  step: MutationStep | string,
+): Promise<void> {
+  let queues = fileQueues.get(app);
+  if (!queues) {
+    queues = new Map();
+    fileQueues.set(app, queues);
+  }
+  const previous = queues.get(file.path) ?? Promise.resolve();
+  const write = previous.then(() => writeFrontmatter(app, file, fn, step));
+  const settled = write.catch(() => {});
+  queues.set(file.path, settled);
+  // Drop the entry once the queue has drained, so idle notes cost nothing.
+  settled.then(() => {
+    if (queues.get(file.path) === settled) queues.delete(file.path);
+  });
+  return write;
+}
+
+// The toast shown after destructive actions (Remove, a group deselect, a
+// tag delete). Only offers the undo while the step is still the latest -
+// anything older goes through the Undo command, in order.
+export function offerUndo(app: App, step: MutationStep): void {
+  const history = mutationHistory(app);
+  if (!history.isLatest(step)) return;
+  const fragment = document.createDocumentFragment();
+  fragment.createSpan({ text: `${step.label}. ` });
+  const button = fragment.createEl("button", { text: "Undo", cls: "alb-undo-button" });
+  const notice = new Notice(fragment, UNDO_NOTICE_MS);
+  button.addEventListener("click", () => {
+    notice.hide();
+    if (!history.isLatest(step)) {
+      new Notice("Newer changes were made since - use the Undo command.");
+      return;
+    }
+    history.undo().catch((e) => console.error("[mutations] undo", e));
+  });
+}
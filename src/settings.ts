@@ -0,0 +1,171 @@
+import { App, PluginSettingTab, Setting } from "obsidian";
+import type ObsidianAdvancedListPlugin from "./main";
+import { DEFAULT_TAG_KEYS, type TagKeys } from "./targetView/tags/tagTypes";
+import { DEFAULT_ROSTER_KEYS, type RosterKeys } from "./targetView/targetTypes";
+import { DEFAULT_LINK_KEYS, type LinkKeys } from "./targetView/linkProviders";
+
+// Every frontmatter key the Targets view reads or writes. Tag, roster and link
+// keys are declared next to the code that consumes them (TagKeys / RosterKeys
+// / LinkKeys) so tagModel.ts, targetRoster.ts and linkProviders.ts don't have
+// to import the plugin; this
+// interface only adds the list/entry keys that live in targetView.svelte.
+export interface AdvancedListSettings extends TagKeys, RosterKeys, LinkKeys {
+  listTargetProperty: string;
+  targetsProperty: string;
+  targetsDoneProperty: string;
+  targetsDoneLogProperty: string;
+  isDoneProperty: string;
+  lengthMinutesProperty: string;
+  lengthFilterProperty: string;
+  lengthValueProperty: string;
+  linkFilterProperty: string;
+  listSearchProperty: string;
+  listTypeProperty: string;
+  showHasTargetsProperty: string;
+  showEmptyTargetsProperty: string;
+  filterPresetsProperty: string;
+  defaultFilterPresetProperty: string;
+  sortProperty: string;
+  groupProperty: string;
+}
+
+export const DEFAULT_SETTINGS: AdvancedListSettings = {
+  ...DEFAULT_TAG_KEYS,
+  ...DEFAULT_ROSTER_KEYS,
+  ...DEFAULT_LINK_KEYS,
+  listTargetProperty: "md_list_target",
+  targetsProperty: "md_targets",
+  targetsDoneProperty: "md_targets_done",
+  targetsDoneLogProperty: "md_targets_done_log",
+  isDoneProperty: "md_is_done",
+  lengthMinutesProperty: "md_length_minutes",
+  lengthFilterProperty: "md_list_length_filter",
+  lengthValueProperty: "md_list_length_value",
+  linkFilterProperty: "md_list_link_filter",
+  listSearchProperty: "md_list_search",
+  listTypeProperty: "md_list_type",
+  showHasTargetsProperty: "check_show_has_targets",
+  showEmptyTargetsProperty: "check_show_empty_targets",
+  filterPresetsProperty: "md_list_filter_presets",
+  defaultFilterPresetProperty: "md_list_filter_preset_default",
+  sortProperty: "md_list_sort",
+  groupProperty: "md_list_group",
+};
+
+type SettingKey = keyof AdvancedListSettings;
+
+interface KeySettingDef {
+  key: SettingKey;
+  name: string;
+  desc: string;
+}
+
+interface KeySection {
+  heading: string;
+  items: KeySettingDef[];
+}
+
+// Drives the settings tab below. Every field is a plain text box; order here
+// is display order.
+const KEY_SECTIONS: KeySection[] = [
+  {
+    heading: "List note",
+    items: [
+      { key: "listTypeProperty", name: "List type", desc: "Shows the filter bar when set, for views whose Show filter bar option was never set." },
+      { key: "listTargetProperty", name: "Active target", desc: "The currently selected target." },
+      { key: "showHasTargetsProperty", name: "Show filled targets", desc: "Checkbox for the Show: Filled filter." },
+      { key: "showEmptyTargetsProperty", name: "Show empty targets", desc: "Checkbox for the Show: Empty filter." },
+      { key: "lengthFilterProperty", name: "Length filter", desc: "below / above." },
+      { key: "lengthValueProperty", name: "Length filter value", desc: "Minutes compared by the length filter." },
+      { key: "linkFilterProperty", name: "Link filter", desc: "link / text / provider:<id>." },
+      { key: "listSearchProperty", name: "Search", desc: "The saved search text." },
+      { key: "filterPresetsProperty", name: "Filter presets", desc: "Saved filter combinations." },
+      { key: "defaultFilterPresetProperty", name: "Default filter preset", desc: "Preset applied when the list opens." },
+      { key: "sortProperty", name: "Sort", desc: "Card order, e.g. length:asc." },
+      { key: "groupProperty", name: "Group", desc: "Card grouping, e.g. tag or property:note.status." },
+    ],
+  },
+  {
+    heading: "Entries",
+    items: [
+      { key: "targetsProperty", name: "Targets", desc: "Targets an entry is queued for. A view's Targets property option overrides it." },
+      { key: "targetsDoneProperty", name: "Targets done", desc: "Targets that have completed an entry." },
+      { key: "targetsDoneLogProperty", name: "Targets done history", desc: "When each target completed an entry (target + timestamp)." },
+      { key: "isDoneProperty", name: "Done", desc: "Set by Remove / Restore." },
+      { key: "lengthMinutesProperty", name: "Length in minutes", desc: "Drives the length badge and filter. A view's Length property option overrides it." },
+    ],
+  },
+  {
+    heading: "Links",
+    items: [
+      { key: "linkProperty", name: "Link", desc: "The entry's link; its kind picks the badge and the Watch / Listen / Read label." },
+      { key: "linkTitleProperty", name: "Title", desc: "Searched for a link when the entry has none of its own." },
+      { key: "backupLinkProperty", name: "Backup link", desc: "Fallback copy shown as the Backup badge." },
+      { key: "redditUrlProperty", name: "Reddit thread", desc: "Where the entry was found; Open goes there." },
+      { key: "redditBackupLinkProperty", name: "Reddit backup link", desc: "Archived copy of the Reddit thread." },
+      { key: "audioProperty", name: "Audio", desc: "Podcast episode or audio file link." },
+      { key: "fileProperty", name: "File", desc: "A vault file or PDF the entry points at." },
+    ],
+  },
+  {
+    heading: "Tags",
+    items: [
+      { key: "tagsProperty", name: "Entry tags", desc: "Tags on each entry." },
+      { key: "listTagsProperty", name: "Tag vocabulary", desc: "Declared tags on the list note." },
+      { key: "listTagsOnlyShowProperty", name: "Included tags", desc: "Tag include filter on the list note." },
+      { key: "listTagsRequiredProperty", name: "Required tags", desc: "Tags every shown entry must have (AND pills)." },
+      { key: "listTagsHiddenProperty", name: "Excluded tags", desc: "Tag exclude filter on the list note." },
+      { key: "listTagsExpressionProperty", name: "Tag expression", desc: "Boolean tag filter, e.g. (talk OR lecture) AND NOT watched." },
+    ],
+  },
+  {
+    heading: "Roster",
+    items: [
+      { key: "targetsSourcePathProperty", name: "Roster path property", desc: "List note key pointing at the roster note." },
+      { key: "defaultTargetsSourcePath", name: "Default roster note", desc: "Used when the list note names no roster. Case-sensitive." },
+      { key: "rosterGroupsKey", name: "Groups key", desc: "Groups list inside the roster note." },
+      { key: "rosterPeopleKey", name: "People key", desc: "People list inside the roster note." },
+    ],
+  },
+];
+
+export class AdvancedListSettingTab extends PluginSettingTab {
+  private plugin: ObsidianAdvancedListPlugin;
+
+  constructor(app: App, plugin: ObsidianAdvancedListPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    new Setting(containerEl)
+      .setDesc(
+        "Frontmatter keys used by the Targets view. Clearing a field restores its default.",
+      );
+
+    for (const section of KEY_SECTIONS) {
+      new Setting(containerEl).setName(section.heading).setHeading();
+      for (const item of section.items) {
+        new Setting(containerEl)
+          .setName(item.name)
+          .setDesc(item.desc)
+          .addText((text) =>
+            text
+              .setPlaceholder(DEFAULT_SETTINGS[item.key])
+              .setValue(this.plugin.settings[item.key])
+              .onChange(async (value) => {
+                // An empty key would read/write `frontmatter[""]`, so blank
+                // means "back to the default" rather than "disabled".
+                const trimmed = value.trim();
+                this.plugin.settings[item.key] =
+                  trimmed === "" ? DEFAULT_SETTINGS[item.key] : trimmed;
+                await this.plugin.saveSettings();
+              }),
+          );
+      }
+    }
+  }
+}
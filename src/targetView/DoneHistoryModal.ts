@@ -0,0 +1,48 @@
+import { Modal, type App } from "obsidian";
+import { mount, unmount } from "svelte";
+import DoneHistory from "./DoneHistory.svelte";
+import type { DoneLogKeys } from "./doneHistory";
+import type { DefinedTarget } from "./targetTypes";
+
+// Thin Obsidian shell around DoneHistory.svelte, like RosterEditorModal.
+// Opening a note from the list closes the modal.
+export class DoneHistoryModal extends Modal {
+  private component: ReturnType<typeof mount> | undefined;
+
+  constructor(
+    app: App,
+    private targets: DefinedTarget[],
+    private keys: DoneLogKeys,
+    private initialTarget = "",
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Done history");
+    this.modalEl.addClass("alb-donehistory-modal");
+    this.component = mount(DoneHistory, {
+      target: this.contentEl,
+      props: {
+        app: this.app,
+        targets: this.targets,
+        keys: this.keys,
+        initialTarget: this.initialTarget,
+        onopen: (path: string) => {
+          this.close();
+          this.app.workspace
+            .openLinkText(path, "", false)
+            .catch((e) => console.error("[DoneHistoryModal] open", e));
+        },
+      },
+    });
+  }
+
+  onClose(): void {
+    if (this.component) {
+      unmount(this.component);
+      this.component = undefined;
+    }
+    this.contentEl.empty();
+  }
+}
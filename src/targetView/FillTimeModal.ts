@@ -0,0 +1,52 @@
+import { Modal, type App, type TFile } from "obsidian";
+import { mount, unmount } from "svelte";
+import FillTime from "./FillTime.svelte";
+import type { TimeCandidate } from "./timeBudget";
+
+export interface FillTimeOptions {
+  candidates: TimeCandidate<TFile>[];
+  skipped: number;
+  targetLabel: string;
+  initialBudget: number;
+  onbudget: (minutes: number) => void;
+  onwatchall: (files: TFile[]) => Promise<void>;
+}
+
+// Thin Obsidian shell around FillTime.svelte, like DoneHistoryModal. The
+// modal closes after "Watch all" and when a note is opened from it.
+export class FillTimeModal extends Modal {
+  private component: ReturnType<typeof mount> | undefined;
+
+  constructor(
+    app: App,
+    private options: FillTimeOptions,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Fill my time");
+    this.modalEl.addClass("alb-filltime-modal");
+    this.component = mount(FillTime, {
+      target: this.contentEl,
+      props: {
+        ...this.options,
+        onopen: (path: string) => {
+          this.close();
+          this.app.workspace
+            .openLinkText(path, "", false)
+            .catch((e) => console.error("[FillTimeModal] open", e));
+        },
+        onwatchall: (files: TFile[]) => this.options.onwatchall(files).then(() => this.close()),
+      },
+    });
+  }
+
+  onClose(): void {
+    if (this.component) {
+      unmount(this.component);
+      this.component = undefined;
+    }
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,44 @@
+import { Modal, type App } from "obsidian";
+import { mount, unmount } from "svelte";
+import RosterEditor from "./RosterEditor.svelte";
+import type { ListStateSource } from "./listState";
+import type { TargetRenameKeys } from "./rosterEdits";
+import type { RosterKeys } from "./targetTypes";
+
+// Thin Obsidian shell around RosterEditor.svelte, like TagManagerModal.
+// `onsaved` lets the opening view reload its roster straight away.
+export class RosterEditorModal extends Modal {
+  private component: ReturnType<typeof mount> | undefined;
+
+  constructor(
+    app: App,
+    private listSource: ListStateSource | null,
+    private keys: RosterKeys & TargetRenameKeys,
+    private onsaved: () => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Edit roster");
+    this.modalEl.addClass("alb-rostereditor-modal");
+    this.component = mount(RosterEditor, {
+      target: this.contentEl,
+      props: {
+        app: this.app,
+        listSource: this.listSource,
+        keys: this.keys,
+        onsaved: this.onsaved,
+        onclose: () => this.close(),
+      },
+    });
+  }
+
+  onClose(): void {
+    if (this.component) {
+      unmount(this.component);
+      this.component = undefined;
+    }
+    this.contentEl.empty();
+  }
+}
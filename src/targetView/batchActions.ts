@@ -0,0 +1,147 @@
+// Batch writes for the Targets selection mode. One action, many notes: each
+// note gets its own processFrontMatter that re-reads and re-applies the
+// action, so a card edited mid-run keeps its other changes. Writes run one
+// at a time through a single chain (the same shape as executeTagOperation),
+// which also keeps two writes to one file from interleaving; a failure is
+// recorded and the run carries on. The whole run is one undo step.
+//
+// Target actions name roster values; a note that lists a target under one
+// of its aliases counts as having it, as in the single-card controls.
+import type { App, TFile } from "obsidian";
+import { undoStep, writeFrontmatter, type MutationStep } from "../mutations";
+import { logDone, unlogDone, type DoneLogKeys } from "./doneHistory";
+import { canonicalTargetValues, type DefinedTarget } from "./targetTypes";
+import type { TagKeys } from "./tags/tagTypes";
+import { addEntryTag, removeEntryTag } from "./tags/tagWrites";
+
+export type BatchAction =
+  | { kind: "addTag"; tag: string }
+  | { kind: "removeTag"; tag: string }
+  // Groups are expanded to their member targets by the caller.
+  | { kind: "assignTargets"; targets: string[] }
+  | { kind: "clearTargets"; targets: string[] }
+  | { kind: "markRead"; target: string }
+  | { kind: "setDone"; done: boolean };
+
+export interface BatchKeys extends TagKeys, DoneLogKeys {
+  targetsProperty: string;
+  isDoneProperty: string;
+}
+
+export interface BatchResult {
+  updated: number;
+  failed: { path: string; error: string }[];
+  step: MutationStep;
+}
+
+function toStringList(raw: unknown): string[] {
+  if (raw === undefined || raw === null) return [];
+  return (Array.isArray(raw) ? raw : [raw]).map((v) => String(v));
+}
+
+function writeOne(
+  app: App,
+  file: TFile,
+  action: BatchAction,
+  keys: BatchKeys,
+  roster: DefinedTarget[],
+  step: MutationStep,
+): Promise<void> {
+  const canonical = (value: string) => canonicalTargetValues(roster, [value])[0];
+  switch (action.kind) {
+    case "addTag":
+      return addEntryTag(app, file, action.tag, keys, step);
+    case "removeTag":
+      return removeEntryTag(app, file, action.tag, keys, step);
+    case "assignTargets":
+      return writeFrontmatter(app, file, (fm) => {
+        const targets = toStringList(fm[keys.targetsProperty]);
+        for (const target of action.targets) {
+          if (!targets.some((t) => canonical(t) === target)) targets.push(target);
+        }
+        fm[keys.targetsProperty] = targets;
+      }, step);
+    case "clearTargets":
+      // Cleared from both lists, like unticking in GroupsAndTargetsSelector.
+      return writeFrontmatter(app, file, (fm) => {
+        const keep = (t: string) => !action.targets.includes(canonical(t));
+        const done = toStringList(fm[keys.targetsDoneProperty]);
+        fm[keys.targetsProperty] = toStringList(fm[keys.targetsProperty]).filter(keep);
+        fm[keys.targetsDoneProperty] = done.filter(keep);
+        for (const target of new Set(done.filter((t) => !keep(t)).map(canonical))) {
+          unlogDone(fm, keys.targetsDoneLogProperty, target);
+        }
+      }, step);
+    case "markRead":
+      return writeFrontmatter(app, file, (fm) => {
+        const done = toStringList(fm[keys.targetsDoneProperty]);
+        if (done.some((t) => canonical(t) === action.target)) return;
+        fm[keys.targetsDoneProperty] = [...done, action.target];
+        logDone(fm, keys.targetsDoneLogProperty, action.target);
+      }, step);
+    case "setDone":
+      return writeFrontmatter(app, file, (fm) => {
+        fm[keys.isDoneProperty] = action.done;
+      }, step);
+  }
+}
+
+// `roster` resolves aliases. `onprogress` fires after each note with
+// (done, total). Resolves once every write has settled.
+export function runBatchAction(
+  app: App,
+  files: TFile[],
+  action: BatchAction,
+  keys: BatchKeys,
+  roster: DefinedTarget[],
+  onprogress: (done: number, total: number) => void,
+): Promise<BatchResult> {
+  const result: BatchResult = {
+    updated: 0,
+    failed: [],
+    step: undoStep(describeBatchAction(action)),
+  };
+  const total = files.length;
+  let done = 0;
+
+  let queue: Promise<void> = Promise.resolve();
+  for (const file of files) {
+    queue = queue
+      .then(() => writeOne(app, file, action, keys, roster, result.step))
+      .then(() => {
+        result.updated++;
+      })
+      .catch((e) => {
+        console.error("[batchActions]", file.path, e);
+        result.failed.push({ path: file.path, error: e instanceof Error ? e.message : String(e) });
+      })
+      .then(() => onprogress(++done, total));
+  }
+  return queue.then(() => result);
+}
+
+// Worth an undo toast: the run took something away.
+export function isDestructiveBatchAction(action: BatchAction): boolean {
+  return (
+    action.kind === "removeTag" ||
+    action.kind === "clearTargets" ||
+    (action.kind === "setDone" && action.done)
+  );
+}
+
+export function describeBatchAction(action: BatchAction): string {
+  switch (action.kind) {
+    case "addTag":
+      return `Added tag ${action.tag}`;
+    case "removeTag":
+      return `Removed tag ${action.tag}`;
+    case "assignTargets":
+      return `Assigned ${action.targets.join(", ")}`;
+    case "clearTargets":
+      return `Cleared ${action.targets.join(", ")}`;
+    case "markRead":
+      return `Marked read for ${action.target}`;
+    case "setDone":
+      return action.done ? "Removed" : "Restored";
+  }
+}
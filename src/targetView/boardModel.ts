@@ -0,0 +1,171 @@
+// Board (kanban) layout for the Targets view. Columns are one of three
+// frontmatter-backed states, chosen per view in the Bases options:
+//   target - none / queued / done for the list's active target
+//   tags   - one column per configured tag, plus "Other"
+//   done   - open / done (md_is_done)
+// Placement reads the same CardFacts as sorting and grouping; a drop writes
+// the matching frontmatter (recorded for undo) and the card moves once
+// the metadata cache round-trips, like every other write in this view.
+import type { App, TFile } from "obsidian";
+import { writeFrontmatter } from "../mutations";
+import type { CardFacts } from "./cardOrdering";
+import { logDone, unlogDone, type DoneLogKeys } from "./doneHistory";
+import { hasTag, normalizeTagList, sameTag, tagKey } from "./tags/tagModel";
+
+export type BoardMode = "target" | "tags" | "done";
+
+export interface BoardColumn<T> {
+  key: string;
+  label: string;
+  // False when the column can't be reached by writing frontmatter - the
+  // target columns while no target is active.
+  droppable: boolean;
+  items: T[];
+}
+
+export interface BoardWriteKeys extends DoneLogKeys {
+  targetsProperty: string;
+  isDoneProperty: string;
+  tagsProperty: string;
+}
+
+const OTHER_TAG_COLUMN = "other";
+
+function tagColumnKey(tag: string): string {
+  return `tag:${tagKey(tag)}`;
+}
+
+function columnDefs(
+  mode: BoardMode,
+  boardTags: string[],
+  targetLabel: string | null,
+): Omit<BoardColumn<never>, "items">[] {
+  if (mode === "done") {
+    return [
+      { key: "open", label: "Open", droppable: true },
+      { key: "done", label: "Done", droppable: true },
+    ];
+  }
+  if (mode === "tags") {
+    return [
+      ...normalizeTagList(boardTags).map((tag) => ({
+        key: tagColumnKey(tag),
+        label: tag,
+        droppable: true,
+      })),
+      { key: OTHER_TAG_COLUMN, label: "Other", droppable: true },
+    ];
+  }
+  if (!targetLabel) {
+    return [
+      { key: "none", label: "No targets", droppable: false },
+      { key: "queued", label: "Has targets", droppable: false },
+    ];
+  }
+  return [
+    { key: "none", label: `Not queued for ${targetLabel}`, droppable: true },
+    { key: "queued", label: `Queued for ${targetLabel}`, droppable: true },
+    { key: "done", label: `Done by ${targetLabel}`, droppable: true },
+  ];
+}
+
+// Exactly one column per card. With several column tags, the first
+// configured one wins, so a card never shows up twice.
+function columnKeyOf(facts: CardFacts, mode: BoardMode, boardTags: string[]): string {
+  if (mode === "done") return facts.doneRank === 2 ? "done" : "open";
+  if (mode === "tags") {
+    const tag = normalizeTagList(boardTags).find((t) => hasTag(facts.tags, t));
+    return tag ? tagColumnKey(tag) : OTHER_TAG_COLUMN;
+  }
+  return facts.targetState;
+}
+
+export function buildBoard<T>(
+  items: T[],
+  factsOf: (item: T) => CardFacts,
+  mode: BoardMode,
+  boardTags: string[],
+  targetLabel: string | null,
+): BoardColumn<T>[] {
+  const columns = columnDefs(mode, boardTags, targetLabel).map((def) => ({
+    ...def,
+    items: [] as T[],
+  }));
+  for (const item of items) {
+    const key = columnKeyOf(factsOf(item), mode, boardTags);
+    columns.find((c) => c.key === key)?.items.push(item);
+  }
+  return columns;
+}
+
+function toStringList(raw: unknown): string[] {
+  if (raw === undefined || raw === null) return [];
+  return (Array.isArray(raw) ? raw : [raw]).map((v) => String(v));
+}
+
+// Adds (keeping position if already there) or removes `value`. `aliases` are
+// other spellings of it: they count as present and are removed along with it.
+function withValue(list: string[], value: string, present: boolean, aliases: string[]): string[] {
+  const matches = (v: string) => v === value || aliases.includes(v);
+  if (!present) return list.filter((v) => !matches(v));
+  return list.some(matches) ? list : [...list, value];
+}
+
+// Writes whatever puts the card in `toKey`. `activeTarget` (and its roster
+// aliases) is only needed in target mode; a drop there without one is a
+// no-op (those columns aren't droppable anyway).
+export function moveCardToColumn(
+  app: App,
+  file: TFile,
+  mode: BoardMode,
+  toKey: string,
+  boardTags: string[],
+  activeTarget: string | undefined,
+  keys: BoardWriteKeys,
+  activeAliases: string[] = [],
+): Promise<void> {
+  const label = `Move ${file.basename}`;
+  if (mode === "done") {
+    return writeFrontmatter(
+      app,
+      file,
+      (fm) => {
+        fm[keys.isDoneProperty] = toKey === "done";
+      },
+      label,
+    );
+  }
+
+  if (mode === "tags") {
+    const columnTags = normalizeTagList(boardTags);
+    const target = columnTags.find((t) => tagColumnKey(t) === toKey);
+    return writeFrontmatter(app, file, (fm) => {
+      // Leaving a column means dropping every column tag, not just the one
+      // the card was shown under - otherwise it would stay put.
+      const tags = normalizeTagList(fm[keys.tagsProperty]).filter(
+        (t) => !columnTags.some((c) => sameTag(c, t)),
+      );
+      if (target) tags.push(target);
+      fm[keys.tagsProperty] = tags;
+    }, label);
+  }
+
+  if (!activeTarget) return Promise.resolve();
+  return writeFrontmatter(app, file, (fm) => {
+    const targets = toStringList(fm[keys.targetsProperty]);
+    const done = toStringList(fm[keys.targetsDoneProperty]);
+    const wasDone = done.some((v) => v === activeTarget || activeAliases.includes(v));
+    if (toKey === "queued") {
+      fm[keys.targetsProperty] = withValue(targets, activeTarget, true, activeAliases);
+      fm[keys.targetsDoneProperty] = withValue(done, activeTarget, false, activeAliases);
+      if (wasDone) unlogDone(fm, keys.targetsDoneLogProperty, activeTarget);
+    } else if (toKey === "done") {
+      fm[keys.targetsDoneProperty] = withValue(done, activeTarget, true, activeAliases);
+      if (!wasDone) logDone(fm, keys.targetsDoneLogProperty, activeTarget);
+    } else {
+      fm[keys.targetsProperty] = withValue(targets, activeTarget, false, activeAliases);
+      fm[keys.targetsDoneProperty] = withValue(done, activeTarget, false, activeAliases);
+      if (wasDone) unlogDone(fm, keys.targetsDoneLogProperty, activeTarget);
+    }
+  }, label);
+}
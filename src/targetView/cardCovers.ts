@@ -0,0 +1,169 @@
+// Card covers: the images a card shows, cached by path and mtime so a Bases
+// update doesn't resolve them all again.
+//
+// Where images are looked for is a per-view list of sources, tried in order
+// and all collected (a card with several images cycles through them):
+//   keys         - the view's image keys (md_image, md_thumbnail, ...)
+//   frontmatter  - every other frontmatter key
+//   properties   - the values of the view's properties (formulas included)
+//   body         - the whole note body, not just the card snippet
+// "none" anywhere in the list turns covers off.
+import type { App, TFile } from "obsidian";
+import { stripNoteBody } from "./entryBodies";
+
+export type CoverSource = "keys" | "frontmatter" | "properties" | "body";
+export type CoverFit = "cover" | "contain" | "icon";
+
+export const COVER_SOURCES: CoverSource[] = ["keys", "frontmatter", "properties", "body"];
+export const DEFAULT_COVER_SOURCES: CoverSource[] = COVER_SOURCES;
+
+export interface CoverOptions {
+  sources: CoverSource[];
+  imageKeys: string[];
+}
+
+// Enough for a gallery; a note of screenshots shouldn't make a huge list.
+const MAX_COVERS = 12;
+const MAX_CACHED = 2000;
+
+const IMAGE_EXT = "png|jpe?g|gif|webp|svg|bmp|avif";
+const IMAGE_EXT_RE = new RegExp(`\\.(${IMAGE_EXT})(\\?[^\\s)"']*)?$`, "i");
+// In document order: ![alt](https://...), ![[image.png|...]], a bare image URL.
+const IMAGE_IN_TEXT_RE = new RegExp(
+  `!\\[[^\\]]*\\]\\((https?:\\/\\/[^\\s)]+)\\)` +
+    `|!\\[\\[([^\\]|]+?\\.(?:${IMAGE_EXT}))(?:\\|[^\\]]*)?\\]\\]` +
+    `|(https?:\\/\\/[^\\s)"']+?\\.(?:${IMAGE_EXT})(?:\\?[^\\s)"']*)?)`,
+  "gi",
+);
+
+// Unknown entries are dropped; an empty result means no covers.
+export function readCoverSources(value: unknown): CoverSource[] {
+  if (!Array.isArray(value)) return DEFAULT_COVER_SOURCES;
+  const names = value.map((v) => String(v).trim().toLowerCase());
+  if (names.includes("none")) return [];
+  const sources = names.filter((n): n is CoverSource =>
+    (COVER_SOURCES as string[]).includes(n),
+  );
+  return sources.length > 0 ? [...new Set(sources)] : DEFAULT_COVER_SOURCES;
+}
+
+function resolveWikiImage(app: App, linkPath: string, sourcePath: string): string | null {
+  const f = app.metadataCache.getFirstLinkpathDest(linkPath, sourcePath);
+  return f ? app.vault.getResourcePath(f) : null;
+}
+
+function imagesInText(app: App, text: string, sourcePath: string): string[] {
+  const found: string[] = [];
+  for (const match of text.matchAll(IMAGE_IN_TEXT_RE)) {
+    const url = match[1] ?? (match[2] ? resolveWikiImage(app, match[2], sourcePath) : match[3]);
+    if (url) found.push(url);
+  }
+  return found;
+}
+
+function imagesInValue(app: App, raw: unknown, sourcePath: string): string[] {
+  if (raw == null) return [];
+  if (Array.isArray(raw)) return raw.flatMap((item) => imagesInValue(app, item, sourcePath));
+  const str = String(raw).trim();
+  if (!str) return [];
+  const fromText = imagesInText(app, str, sourcePath);
+  if (fromText.length > 0) return fromText;
+  if (/^https?:\/\//i.test(str) && IMAGE_EXT_RE.test(str)) return [str];
+  // A bare vault path, e.g. `covers/book.jpg`.
+  if (IMAGE_EXT_RE.test(str) && !str.includes(" ")) {
+    const resolved = resolveWikiImage(app, str, sourcePath);
+    if (resolved) return [resolved];
+  }
+  return [];
+}
+
+async function collectCovers(
+  app: App,
+  file: TFile,
+  options: CoverOptions,
+  propertyTexts: string[],
+): Promise<string[]> {
+  const sourcePath = file.path;
+  const fm = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+  const covers = new Set<string>();
+  const add = (urls: string[]) => urls.forEach((url) => covers.add(url));
+
+  for (const source of options.sources) {
+    if (covers.size >= MAX_COVERS) break;
+    switch (source) {
+      case "keys":
+        for (const key of options.imageKeys) {
+          if (key in fm) add(imagesInValue(app, fm[key], sourcePath));
+        }
+        break;
+      case "frontmatter":
+        for (const key of Object.keys(fm)) {
+          if (!options.imageKeys.includes(key)) add(imagesInValue(app, fm[key], sourcePath));
+        }
+        break;
+      case "properties":
+        for (const text of propertyTexts) add(imagesInValue(app, text, sourcePath));
+        break;
+      case "body": {
+        const body = stripNoteBody(await app.vault.cachedRead(file));
+        add(imagesInText(app, body, sourcePath));
+        break;
+      }
+    }
+  }
+  return [...covers].slice(0, MAX_COVERS);
+}
+
+class CoverCache {
+  // Keyed by path; the signature covers everything the result depends on
+  // besides the vault's other files.
+  private cache = new Map<string, { signature: string; covers: Promise<string[]> }>();
+
+  constructor(private app: App) {}
+
+  resolve(file: TFile, options: CoverOptions, propertyTexts: string[]): Promise<string[]> {
+    const signature = JSON.stringify([
+      file.stat.mtime,
+      options.sources,
+      options.imageKeys,
+      options.sources.includes("properties") ? propertyTexts : null,
+    ]);
+    const cached = this.cache.get(file.path);
+    this.cache.delete(file.path);
+    if (cached && cached.signature === signature) {
+      this.cache.set(file.path, cached);
+      return cached.covers;
+    }
+
+    const covers = collectCovers(this.app, file, options, propertyTexts).catch((error) => {
+      console.error(`Error finding covers for ${file.path}:`, error);
+      if (this.cache.get(file.path)?.covers === covers) this.cache.delete(file.path);
+      return [];
+    });
+    this.cache.set(file.path, { signature, covers });
+    if (this.cache.size > MAX_CACHED) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    return covers;
+  }
+}
+
+const caches = new WeakMap<App, CoverCache>();
+
+// `propertyTexts` are the card's property values as text, for the
+// "properties" source.
+export function resolveCovers(
+  app: App,
+  file: TFile,
+  options: CoverOptions,
+  propertyTexts: string[],
+): Promise<string[]> {
+  if (options.sources.length === 0) return Promise.resolve([]);
+  let cache = caches.get(app);
+  if (!cache) {
+    cache = new CoverCache(app);
+    caches.set(app, cache);
+  }
+  return cache.resolve(file, options, propertyTexts);
+}
@@ -0,0 +1,55 @@
+// Arrow-key movement between cards, by on-screen position rather than list
+// order - the same code then works for the grid (rows wrap with the width),
+// grouped sections and the board (columns side by side). Pure: the view
+// measures the cards and passes their rects in.
+
+export type NavDirection = "up" | "down" | "left" | "right";
+
+export interface CardRect {
+  key: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function centre(rect: CardRect): { x: number; y: number } {
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+}
+
+function overlaps(aStart: number, aSize: number, bStart: number, bSize: number): boolean {
+  return aStart < bStart + bSize && bStart < aStart + aSize;
+}
+
+// The nearest card in `direction` from `fromKey`. Cards in line with it (same
+// row for left/right, same column for up/down) win, nearest first; only when
+// there are none does the closest card off to the side count. Null at the
+// edge.
+export function cardInDirection(
+  cards: CardRect[],
+  fromKey: string,
+  direction: NavDirection,
+): string | null {
+  const from = cards.find((c) => c.key === fromKey);
+  if (!from) return null;
+  const origin = centre(from);
+  const vertical = direction === "up" || direction === "down";
+  const sign = direction === "down" || direction === "right" ? 1 : -1;
+
+  let best: { key: string; inLine: boolean; score: number } | null = null;
+  for (const card of cards) {
+    if (card.key === fromKey) continue;
+    const c = centre(card);
+    const main = sign * (vertical ? c.y - origin.y : c.x - origin.x);
+    if (main <= 0) continue;
+    const cross = Math.abs(vertical ? c.x - origin.x : c.y - origin.y);
+    const inLine = vertical
+      ? overlaps(from.left, from.width, card.left, card.width)
+      : overlaps(from.top, from.height, card.top, card.height);
+    const score = inLine ? main : main + 2 * cross;
+    if (!best || (inLine && !best.inLine) || (inLine === best.inLine && score < best.score)) {
+      best = { key: card.key, inLine, score };
+    }
+  }
+  return best?.key ?? null;
+}
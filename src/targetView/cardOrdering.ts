@@ -0,0 +1,207 @@
+// Sorting and grouping for the Targets cards. Pure - the view computes a
+// CardFacts per entry and hands over the already-filtered list. Both specs
+// are persisted per list as short strings (`length:desc`, `tag`,
+// `property:note.status`) so they read sensibly in frontmatter.
+import type { ShowFilter } from "./filterPresets";
+import { linkProviders } from "./linkProviders";
+import { tagKey } from "./tags/tagModel";
+
+export type SortField = "none" | "title" | "length" | "created" | "modified" | "done";
+export type SortDirection = "asc" | "desc";
+
+export interface SortSpec {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export type GroupSpec =
+  | { kind: "none" }
+  | { kind: "tag" }
+  | { kind: "target" }
+  | { kind: "length" }
+  | { kind: "link" }
+  | { kind: "property"; property: string };
+
+// Relative to the list's active target; with no active target, "queued"
+// means "has any target" and "done" never occurs.
+export type TargetState = "queued" | "done" | "none";
+
+// The "Show:" filter. "filled" is the active target's queue (queued, not yet
+// done); "empty" is what isn't on it at all. Done cards only show under "all".
+export function matchesTargetFilter(state: TargetState, filter: ShowFilter): boolean {
+  if (filter === "filled") return state === "queued";
+  if (filter === "empty") return state === "none";
+  return true;
+}
+
+export interface CardFacts {
+  title: string;
+  tags: string[];
+  lengthMinutes: number | null;
+  created: number;
+  modified: number;
+  // 0 open, 1 done for the active target, 2 removed (md_is_done).
+  doneRank: number;
+  targetState: TargetState;
+  // Id of the entry's link provider (linkProviders.ts); null without a link.
+  linkProvider: string | null;
+  // Display value of the grouped-by property; only filled in when grouping
+  // by property. "" means empty.
+  propertyValue: string;
+}
+
+export interface CardGroup<T> {
+  key: string;
+  label: string;
+  items: T[];
+}
+
+export const DEFAULT_SORT: SortSpec = { field: "none", direction: "asc" };
+export const NO_GROUP: GroupSpec = { kind: "none" };
+
+const SORT_FIELDS: readonly SortField[] = ["none", "title", "length", "created", "modified", "done"];
+
+export function parseSortSpec(raw: unknown): SortSpec {
+  if (typeof raw !== "string") return DEFAULT_SORT;
+  const [field, direction] = raw.split(":");
+  if (!SORT_FIELDS.includes(field as SortField)) return DEFAULT_SORT;
+  return { field: field as SortField, direction: direction === "desc" ? "desc" : "asc" };
+}
+
+export function formatSortSpec(spec: SortSpec): string | null {
+  return spec.field === "none" ? null : `${spec.field}:${spec.direction}`;
+}
+
+export function parseGroupSpec(raw: unknown): GroupSpec {
+  if (typeof raw !== "string") return NO_GROUP;
+  if (raw === "tag" || raw === "target" || raw === "length" || raw === "link") {
+    return { kind: raw };
+  }
+  if (raw.startsWith("property:") && raw.length > "property:".length) {
+    return { kind: "property", property: raw.slice("property:".length) };
+  }
+  return NO_GROUP;
+}
+
+export function formatGroupSpec(spec: GroupSpec): string | null {
+  if (spec.kind === "none") return null;
+  return spec.kind === "property" ? `property:${spec.property}` : spec.kind;
+}
+
+function compareFacts(a: CardFacts, b: CardFacts, field: SortField): number {
+  switch (field) {
+    case "title":
+      return a.title.localeCompare(b.title, undefined, { numeric: true });
+    case "length":
+      return (a.lengthMinutes ?? 0) - (b.lengthMinutes ?? 0);
+    case "created":
+      return a.created - b.created;
+    case "modified":
+      return a.modified - b.modified;
+    case "done":
+      return a.doneRank - b.doneRank;
+    default:
+      return 0;
+  }
+}
+
+// Stable, so equal keys keep Bases' order. Unknown lengths always sink to
+// the end - "shortest first" shouldn't open with a pile of text notes.
+export function sortCards<T>(items: T[], factsOf: (item: T) => CardFacts, spec: SortSpec): T[] {
+  if (spec.field === "none") return items;
+  const sign = spec.direction === "desc" ? -1 : 1;
+  return items
+    .map((item, index) => ({ item, index, facts: factsOf(item) }))
+    .sort((a, b) => {
+      if (spec.field === "length") {
+        const aUnknown = a.facts.lengthMinutes === null;
+        const bUnknown = b.facts.lengthMinutes === null;
+        if (aUnknown !== bUnknown) return aUnknown ? 1 : -1;
+      }
+      return sign * compareFacts(a.facts, b.facts, spec.field) || a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+const LENGTH_BUCKETS: { max: number; label: string }[] = [
+  { max: 5, label: "Under 5 min" },
+  { max: 15, label: "5–15 min" },
+  { max: 30, label: "15–30 min" },
+  { max: 60, label: "30–60 min" },
+  { max: Infinity, label: "1 hour or more" },
+];
+
+// Keys and labels a card belongs to, in fixed display order where the
+// grouping has one. A card with several tags is listed under each of them.
+function groupsOf(
+  facts: CardFacts,
+  spec: GroupSpec,
+  targetLabel: string | null,
+): { key: string; label: string; order: number }[] {
+  switch (spec.kind) {
+    case "tag":
+      if (facts.tags.length === 0) return [{ key: "tag:", label: "Untagged", order: 1 }];
+      return facts.tags.map((tag) => ({ key: `tag:${tagKey(tag)}`, label: tag, order: 0 }));
+    case "target": {
+      if (!targetLabel) {
+        return facts.targetState === "none"
+          ? [{ key: "target:none", label: "No targets", order: 1 }]
+          : [{ key: "target:queued", label: "Has targets", order: 0 }];
+      }
+      if (facts.targetState === "queued") {
+        return [{ key: "target:queued", label: `Queued for ${targetLabel}`, order: 0 }];
+      }
+      if (facts.targetState === "done") {
+        return [{ key: "target:done", label: `Done by ${targetLabel}`, order: 1 }];
+      }
+      return [{ key: "target:none", label: `Not queued for ${targetLabel}`, order: 2 }];
+    }
+    case "length": {
+      if (facts.lengthMinutes === null) {
+        return [{ key: "length:unknown", label: "Unknown length", order: LENGTH_BUCKETS.length }];
+      }
+      const index = LENGTH_BUCKETS.findIndex((b) => (facts.lengthMinutes ?? 0) < b.max);
+      return [{ key: `length:${index}`, label: LENGTH_BUCKETS[index].label, order: index }];
+    }
+    case "link": {
+      // One group per provider, in registry order, then the text-only ones.
+      const providers = linkProviders();
+      const index = providers.findIndex((p) => p.id === facts.linkProvider);
+      return index === -1
+        ? [{ key: "link:none", label: "Text only", order: providers.length }]
+        : [{ key: `link:${providers[index].id}`, label: providers[index].name, order: index }];
+    }
+    case "property":
+      return facts.propertyValue === ""
+        ? [{ key: "property:", label: "(empty)", order: 1 }]
+        : [{ key: `property:${facts.propertyValue}`, label: facts.propertyValue, order: 0 }];
+    default:
+      return [{ key: "all", label: "", order: 0 }];
+  }
+}
+
+// Groups keep the incoming (already sorted) order of their items. Groups
+// with the same `order` - tags, property values - sort by size, then name.
+export function groupCards<T>(
+  items: T[],
+  factsOf: (item: T) => CardFacts,
+  spec: GroupSpec,
+  targetLabel: string | null,
+): CardGroup<T>[] {
+  const groups = new Map<string, CardGroup<T> & { order: number }>();
+  for (const item of items) {
+    for (const { key, label, order } of groupsOf(factsOf(item), spec, targetLabel)) {
+      const group = groups.get(key) ?? { key, label, order, items: [] };
+      group.items.push(item);
+      groups.set(key, group);
+    }
+  }
+  return [...groups.values()]
+    .sort(
+      (a, b) =>
+        a.order - b.order ||
+        b.items.length - a.items.length ||
+        a.label.localeCompare(b.label, undefined, { numeric: true }),
+    )
+    .map(({ key, label, items: groupItems }) => ({ key, label, items: groupItems }));
+}
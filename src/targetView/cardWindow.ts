@@ -0,0 +1,68 @@
+// Windowing for big lists: a card's contents are mounted only while it is
+// near the visible part of the scroll area. Every card keeps its outer
+// element - with data-card-path and its tab stop, so keyboard navigation,
+// focus and the position-based arrow keys still see the whole list - and an
+// unmounted one is an empty shell holding its last measured height, so the
+// scrollbar and the grid rows stay put.
+//
+// One IntersectionObserver serves the whole view. It is rooted at the
+// nearest scrolling ancestor rather than the viewport, because a root
+// margin only widens the root: with the viewport as root, cards inside the
+// view's own scroll container would mount only as they scroll into sight.
+
+// How far outside the visible area cards are mounted ahead of time.
+const MOUNT_MARGIN = "800px 0px";
+
+function scrollParent(el: HTMLElement): HTMLElement | null {
+  for (let node = el.parentElement; node; node = node.parentElement) {
+    const overflow = getComputedStyle(node).overflowY;
+    if (overflow === "auto" || overflow === "scroll") return node;
+  }
+  return null;
+}
+
+export class CardWindow {
+  private observer: IntersectionObserver | null = null;
+  private paths = new Map<Element, string>();
+  private heights = new Map<string, number>();
+
+  // `onchange` hears when a card comes near the visible area or leaves it.
+  constructor(private onchange: (path: string, near: boolean) => void) {}
+
+  attach(container: HTMLElement): void {
+    this.detach();
+    this.observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const path = this.paths.get(entry.target);
+          if (path === undefined) continue;
+          // Measured on the way out, while the contents are still mounted.
+          if (!entry.isIntersecting) this.heights.set(path, entry.boundingClientRect.height);
+          this.onchange(path, entry.isIntersecting);
+        }
+      },
+      { root: scrollParent(container), rootMargin: MOUNT_MARGIN },
+    );
+    for (const el of this.paths.keys()) this.observer.observe(el);
+  }
+
+  detach(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+
+  observe(el: Element, path: string): void {
+    this.paths.set(el, path);
+    this.observer?.observe(el);
+  }
+
+  unobserve(el: Element): void {
+    this.paths.delete(el);
+    this.observer?.unobserve(el);
+  }
+
+  // The card's height when it was last mounted, for its shell.
+  heightOf(path: string): number | undefined {
+    return this.heights.get(path);
+  }
+}
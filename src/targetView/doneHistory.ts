@@ -0,0 +1,153 @@
+// Timestamped done history. md_targets_done only says *that* a target
+// finished an entry; md_targets_done_log (beside it, same entry) says when:
+//
+//   md_targets_done_log:
+//     - target: Eli
+//       at: 2026-10-12T19:40:00.000Z
+//
+// md_targets_done stays the source of truth for done-ness - every writer
+// still maintains it exactly as before - and the log is only appended to
+// when a target is marked done and trimmed whenever a done value goes away -
+// unmarked, or cleared along with the target - so the log never claims done
+// for an entry that isn't.
+import type { App, TFile } from "obsidian";
+import { writeFrontmatter, type MutationStep } from "../mutations";
+import { canonicalTargetValues, type DefinedTarget } from "./targetTypes";
+
+export interface DoneEvent {
+  target: string;
+  // ISO 8601, UTC.
+  at: string;
+}
+
+export interface DoneHistoryItem extends DoneEvent {
+  file: TFile;
+}
+
+export interface DoneLogKeys {
+  targetsDoneProperty: string;
+  targetsDoneLogProperty: string;
+}
+
+// A raw log item as an event, or null when it isn't one. A YAML parser with
+// a timestamp type hands `at` back as a Date, so both forms are accepted.
+function toEvent(item: unknown): DoneEvent | null {
+  if (!item || typeof item !== "object") return null;
+  const { target, at } = item as Record<string, unknown>;
+  if (typeof target !== "string") return null;
+  const time = at instanceof Date ? at.getTime() : typeof at === "string" ? Date.parse(at) : NaN;
+  return isNaN(time) ? null : { target, at: new Date(time).toISOString() };
+}
+
+// Well-formed events only; anything else in the property is ignored here and
+// left untouched by the writers below.
+export function readDoneLog(raw: unknown): DoneEvent[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(toEvent).filter((e): e is DoneEvent => e !== null);
+}
+
+function logOf(fm: Record<string, any>, key: string): unknown[] {
+  const raw = fm[key];
+  return Array.isArray(raw) ? [...raw] : [];
+}
+
+function isEventOf(item: unknown, target: string): boolean {
+  return !!item && typeof item === "object" && (item as Record<string, unknown>).target === target;
+}
+
+// For use inside a processFrontMatter callback, next to the md_targets_done
+// change: appends an event for `target` at `now`.
+export function logDone(fm: Record<string, any>, key: string, target: string, now = new Date()): void {
+  fm[key] = [...logOf(fm, key), { target, at: now.toISOString() }];
+}
+
+// The counterpart for unmarking: drops `target`'s most recent event (the one
+// being taken back) and deletes the property once it's empty.
+export function unlogDone(fm: Record<string, any>, key: string, target: string): void {
+  const log = logOf(fm, key);
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (!isEventOf(log[i], target)) continue;
+    log.splice(i, 1);
+    break;
+  }
+  if (log.length === 0) delete fm[key];
+  else fm[key] = log;
+}
+
+// For a roster rename, inside the same processFrontMatter callback that
+// renames md_targets / md_targets_done: events keep their time, only the
+// target they name follows `renames` (old value -> new).
+export function renameDoneLog(
+  fm: Record<string, any>,
+  key: string,
+  renames: Map<string, string>,
+): void {
+  if (!Array.isArray(fm[key])) return;
+  fm[key] = (fm[key] as unknown[]).map((item) => {
+    if (!item || typeof item !== "object") return item;
+    const target = (item as Record<string, unknown>).target;
+    const renamed = typeof target === "string" ? renames.get(target) : undefined;
+    return renamed === undefined ? item : { ...item, target: renamed };
+  });
+}
+
+// Names of the targets `raw` (a log property's value) has events for.
+export function doneLogTargets(raw: unknown): string[] {
+  return readDoneLog(raw).map((e) => e.target);
+}
+
+// Every logged event in the vault at or after `since`, newest first. Read
+// from the metadata cache.
+export function collectDoneHistory(app: App, keys: DoneLogKeys, since: Date | null): DoneHistoryItem[] {
+  const items: DoneHistoryItem[] = [];
+  const from = since?.getTime() ?? -Infinity;
+  for (const file of app.vault.getMarkdownFiles()) {
+    const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+    for (const event of readDoneLog(fm?.[keys.targetsDoneLogProperty])) {
+      if (Date.parse(event.at) >= from) items.push({ ...event, file });
+    }
+  }
+  return items.sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+}
+
+// Takes one event back: removes exactly that event and, unless the target
+// has another event left on the entry, the target from md_targets_done.
+// `roster` resolves aliases, so a done value stored under an alias spelling
+// goes too.
+export function undoDoneEvent(
+  app: App,
+  item: DoneHistoryItem,
+  keys: DoneLogKeys,
+  roster: DefinedTarget[],
+  step: MutationStep | string,
+): Promise<void> {
+  const canonical = (value: string) => canonicalTargetValues(roster, [value])[0];
+  const target = canonical(item.target);
+  const isTarget = (value: unknown) => canonical(String(value)) === target;
+  return writeFrontmatter(
+    app,
+    item.file,
+    (fm) => {
+      const log = logOf(fm, keys.targetsDoneLogProperty);
+      const index = log.findIndex((e) => {
+        const event = toEvent(e);
+        return event?.target === item.target && event.at === item.at;
+      });
+      if (index === -1) return;
+      log.splice(index, 1);
+      if (log.length === 0) delete fm[keys.targetsDoneLogProperty];
+      else fm[keys.targetsDoneLogProperty] = log;
+
+      const eventTarget = (e: unknown) =>
+        e && typeof e === "object" ? (e as Record<string, unknown>).target : undefined;
+      if (log.some((e) => typeof eventTarget(e) === "string" && isTarget(eventTarget(e)))) return;
+      const done = fm[keys.targetsDoneProperty];
+      if (Array.isArray(done)) {
+        fm[keys.targetsDoneProperty] = done.filter((t) => !isTarget(t));
+      } else if (done !== undefined && done !== null && isTarget(done)) {
+        fm[keys.targetsDoneProperty] = [];
+      }
+    },
+    step,
+  );
+}
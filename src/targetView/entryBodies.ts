@@ -0,0 +1,73 @@
+// Card body snippets, cached by path and mtime. Reading every note of a list
+// on each Bases update was the slow part of processing it; now a note is
+// read again only once it has changed on disk. Shared per app, so another
+// view of the same notes (or this one after a remount) starts warm.
+//
+// The snippet is what the card and the search index use: the body without
+// frontmatter and embedded bases, trimmed to BODY_LIMIT characters. The
+// preview and the cover search use the whole body, stripped the same way.
+import type { App, TFile } from "obsidian";
+
+const BODY_LIMIT = 300;
+// Least recently used notes are dropped past this; a few big lists' worth.
+const MAX_CACHED = 2000;
+
+const FRONTMATTER_RE = /^---\s*\n[\s\S]*?\n---\s*\n/;
+// e.g. ![[Inbox/_data/base.base#OmniSingleItem|base]]. Kept inside one
+// embed, so an image embed earlier on the line survives.
+const EMBEDDED_BASE_RE = /!\[\[[^\]]+?\.base[^\]]*\]\]/g;
+
+// A note's body without frontmatter or embedded bases - an embedded base
+// would render this list inside itself.
+export function stripNoteBody(content: string): string {
+  return content.replace(FRONTMATTER_RE, "").replace(EMBEDDED_BASE_RE, "").trim();
+}
+
+function toSnippet(content: string): string {
+  return content
+    .replace(FRONTMATTER_RE, "")
+    .trim()
+    .substring(0, BODY_LIMIT)
+    .replace(EMBEDDED_BASE_RE, "");
+}
+
+class EntryBodies {
+  // The promise is cached, not the string, so concurrent reads of one note
+  // share a single vault.read.
+  private cache = new Map<string, { mtime: number; body: Promise<string> }>();
+
+  constructor(private app: App) {}
+
+  read(file: TFile): Promise<string> {
+    const cached = this.cache.get(file.path);
+    this.cache.delete(file.path);
+    if (cached && cached.mtime === file.stat.mtime) {
+      this.cache.set(file.path, cached);
+      return cached.body;
+    }
+
+    const body = this.app.vault.read(file).then(toSnippet, (error) => {
+      console.error(`Error reading file ${file.path}:`, error);
+      // Not worth keeping: the next pass retries.
+      if (this.cache.get(file.path)?.body === body) this.cache.delete(file.path);
+      return "";
+    });
+    this.cache.set(file.path, { mtime: file.stat.mtime, body });
+    if (this.cache.size > MAX_CACHED) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    return body;
+  }
+}
+
+const bodies = new WeakMap<App, EntryBodies>();
+
+export function readEntryBody(app: App, file: TFile): Promise<string> {
+  let cache = bodies.get(app);
+  if (!cache) {
+    cache = new EntryBodies(app);
+    bodies.set(app, cache);
+  }
+  return cache.read(file);
+}
@@ -0,0 +1,275 @@
+// Named snapshots of the whole filter bar - target, show, length, link, tags
+// and search - stored as a list of objects in the list state next to the
+// filters themselves. A preset records values, not frontmatter keys, so it
+// survives a key remap in the settings tab; capture/apply translate through
+// the current keys.
+import type { App } from "obsidian";
+import type { AdvancedListSettings } from "../settings";
+import type { MutationStep } from "../mutations";
+import { linkProviderById } from "./linkProviders";
+import { readListState, updateListState, type ListStateSource } from "./listState";
+import { normalizeTagList, sameTag } from "./tags/tagModel";
+
+export const DEFAULT_LENGTH_VALUE = 3;
+
+export type ShowFilter = "all" | "filled" | "empty";
+export type LengthFilter = "all" | "below" | "above";
+// "provider:<id>" keeps entries whose link is of that provider (see
+// linkProviders.ts).
+export type LinkFilter = "all" | "link" | "text" | `provider:${string}`;
+
+export interface FilterPreset {
+  name: string;
+  target: string | null;
+  show: ShowFilter;
+  lengthFilter: LengthFilter;
+  lengthValue: number;
+  linkFilter: LinkFilter;
+  tagsInclude: string[];
+  tagsRequire: string[];
+  tagsExclude: string[];
+  tagsExpression: string;
+  search: string;
+}
+
+type State = Record<string, unknown> | undefined;
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+export function readLinkFilter(value: unknown): LinkFilter {
+  if (value === "link" || value === "text") return value;
+  if (typeof value === "string" && value.startsWith("provider:")) {
+    return linkProviderById(value.slice("provider:".length)) ? (value as LinkFilter) : "all";
+  }
+  return "all";
+}
+
+function readShow(state: State, keys: AdvancedListSettings): ShowFilter {
+  const hasTargets = state?.[keys.showHasTargetsProperty] === true;
+  const emptyTargets = state?.[keys.showEmptyTargetsProperty] === true;
+  if (hasTargets && !emptyTargets) return "filled";
+  if (emptyTargets && !hasTargets) return "empty";
+  return "all";
+}
+
+function readTarget(state: State, keys: AdvancedListSettings): string | null {
+  const raw = state?.[keys.listTargetProperty];
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  return value == null || value === "" ? null : String(value);
+}
+
+function readLengthValue(raw: unknown): number {
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_LENGTH_VALUE;
+}
+
+// The live filter state, read the same way the filter bar reads it.
+export function captureFilterPreset(
+  state: State,
+  name: string,
+  keys: AdvancedListSettings,
+): FilterPreset {
+  const expression = state?.[keys.listTagsExpressionProperty];
+  const search = state?.[keys.listSearchProperty];
+  return {
+    name,
+    target: readTarget(state, keys),
+    show: readShow(state, keys),
+    lengthFilter: oneOf(state?.[keys.lengthFilterProperty], ["below", "above"], "all"),
+    lengthValue: readLengthValue(state?.[keys.lengthValueProperty]),
+    linkFilter: readLinkFilter(state?.[keys.linkFilterProperty]),
+    tagsInclude: normalizeTagList(state?.[keys.listTagsOnlyShowProperty]),
+    tagsRequire: normalizeTagList(state?.[keys.listTagsRequiredProperty]),
+    tagsExclude: normalizeTagList(state?.[keys.listTagsHiddenProperty]),
+    tagsExpression: typeof expression === "string" ? expression.trim() : "",
+    search: typeof search === "string" ? search.trim() : "",
+  };
+}
+
+// Hand-edited or half-written entries are repaired field by field rather
+// than dropped; only an entry without a name is skipped.
+function sanitizePreset(raw: unknown): FilterPreset | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const name = typeof r.name === "string" ? r.name.trim() : "";
+  if (name === "") return null;
+  return {
+    name,
+    target: r.target == null || r.target === "" ? null : String(r.target),
+    show: oneOf(r.show, ["filled", "empty"], "all"),
+    lengthFilter: oneOf(r.lengthFilter, ["below", "above"], "all"),
+    lengthValue: readLengthValue(r.lengthValue),
+    linkFilter: readLinkFilter(r.linkFilter),
+    tagsInclude: normalizeTagList(r.tagsInclude),
+    tagsRequire: normalizeTagList(r.tagsRequire),
+    tagsExclude: normalizeTagList(r.tagsExclude),
+    tagsExpression: typeof r.tagsExpression === "string" ? r.tagsExpression.trim() : "",
+    search: typeof r.search === "string" ? r.search.trim() : "",
+  };
+}
+
+export function readFilterPresets(state: State, keys: AdvancedListSettings): FilterPreset[] {
+  const raw = state?.[keys.filterPresetsProperty];
+  if (!Array.isArray(raw)) return [];
+  const presets: FilterPreset[] = [];
+  for (const item of raw) {
+    const preset = sanitizePreset(item);
+    if (preset && !presets.some((p) => p.name === preset.name)) presets.push(preset);
+  }
+  return presets;
+}
+
+export function readDefaultPresetName(
+  state: State,
+  keys: AdvancedListSettings,
+): string | null {
+  const raw = state?.[keys.defaultFilterPresetProperty];
+  return typeof raw === "string" && raw.trim() !== "" ? raw.trim() : null;
+}
+
+function sameTagList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((t) => b.some((u) => sameTag(t, u)));
+}
+
+// Name-blind equality: does applying `b` leave the filters exactly as `a`?
+export function presetsMatch(a: FilterPreset, b: FilterPreset): boolean {
+  return (
+    a.target === b.target &&
+    a.show === b.show &&
+    a.lengthFilter === b.lengthFilter &&
+    // The value is inert while the length filter is off.
+    (a.lengthFilter === "all" || a.lengthValue === b.lengthValue) &&
+    a.linkFilter === b.linkFilter &&
+    sameTagList(a.tagsInclude, b.tagsInclude) &&
+    sameTagList(a.tagsRequire, b.tagsRequire) &&
+    sameTagList(a.tagsExclude, b.tagsExclude) &&
+    a.tagsExpression === b.tagsExpression &&
+    a.search === b.search
+  );
+}
+
+// Writes every filter key, following each writer's own empty-value
+// convention in targetView.svelte / tagWrites.ts (delete vs null vs false).
+function writePresetFilters(
+  fm: Record<string, any>,
+  preset: FilterPreset,
+  keys: AdvancedListSettings,
+): void {
+  fm[keys.listTargetProperty] = preset.target;
+  fm[keys.showHasTargetsProperty] = preset.show !== "empty";
+  fm[keys.showEmptyTargetsProperty] = preset.show !== "filled";
+
+  if (preset.lengthFilter === "all") delete fm[keys.lengthFilterProperty];
+  else fm[keys.lengthFilterProperty] = preset.lengthFilter;
+  fm[keys.lengthValueProperty] = preset.lengthValue;
+
+  if (preset.linkFilter === "all") delete fm[keys.linkFilterProperty];
+  else fm[keys.linkFilterProperty] = preset.linkFilter;
+
+  const arrays: [string, string[]][] = [
+    [keys.listTagsOnlyShowProperty, preset.tagsInclude],
+    [keys.listTagsRequiredProperty, preset.tagsRequire],
+    [keys.listTagsHiddenProperty, preset.tagsExclude],
+  ];
+  for (const [key, tags] of arrays) {
+    if (tags.length > 0) fm[key] = [...tags];
+    else delete fm[key];
+  }
+
+  if (preset.tagsExpression !== "") fm[keys.listTagsExpressionProperty] = preset.tagsExpression;
+  else delete fm[keys.listTagsExpressionProperty];
+
+  if (preset.search !== "") fm[keys.listSearchProperty] = preset.search;
+  else delete fm[keys.listSearchProperty];
+}
+
+// `record: false` leaves the undo history alone - for the default preset,
+// which the view applies by itself on open.
+export function applyFilterPreset(
+  app: App,
+  source: ListStateSource | null,
+  preset: FilterPreset,
+  keys: AdvancedListSettings,
+  record = true,
+): Promise<void> {
+  return updateListState(
+    app,
+    source,
+    (fm) => writePresetFilters(fm, preset, keys),
+    record ? `Apply preset ${preset.name}` : null,
+  );
+}
+
+function toStored(preset: FilterPreset): Record<string, unknown> {
+  return {
+    ...preset,
+    tagsInclude: [...preset.tagsInclude],
+    tagsRequire: [...preset.tagsRequire],
+    tagsExclude: [...preset.tagsExclude],
+  };
+}
+
+// Captures the current filters under `name`, replacing a preset of the same
+// name in place (that's also how "update" works) or appending a new one.
+export function saveFilterPreset(
+  app: App,
+  source: ListStateSource | null,
+  name: string,
+  keys: AdvancedListSettings,
+): Promise<void> {
+  const trimmed = name.trim();
+  if (trimmed === "") return Promise.resolve();
+  return updateListState(app, source, (fm) => {
+    const preset = captureFilterPreset(fm, trimmed, keys);
+    const presets = readFilterPresets(fm, keys);
+    const index = presets.findIndex((p) => p.name === trimmed);
+    if (index === -1) presets.push(preset);
+    else presets[index] = preset;
+    fm[keys.filterPresetsProperty] = presets.map(toStored);
+  }, `Save preset ${trimmed}`);
+}
+
+export function deleteFilterPreset(
+  app: App,
+  source: ListStateSource | null,
+  name: string,
+  keys: AdvancedListSettings,
+  step: MutationStep,
+): Promise<void> {
+  return updateListState(app, source, (fm) => {
+    const presets = readFilterPresets(fm, keys).filter((p) => p.name !== name);
+    if (presets.length > 0) fm[keys.filterPresetsProperty] = presets.map(toStored);
+    else delete fm[keys.filterPresetsProperty];
+    if (readDefaultPresetName(fm, keys) === name) delete fm[keys.defaultFilterPresetProperty];
+  }, step);
+}
+
+// null clears the default.
+export function setDefaultFilterPreset(
+  app: App,
+  source: ListStateSource | null,
+  name: string | null,
+  keys: AdvancedListSettings,
+): Promise<void> {
+  return updateListState(app, source, (fm) => {
+    if (name === null) delete fm[keys.defaultFilterPresetProperty];
+    else fm[keys.defaultFilterPresetProperty] = name;
+  }, name === null ? "Clear default preset" : `Use preset ${name} as default`);
+}
+
+// Used once per list source when the view opens: the default preset, unless
+// the filters already match it (so opening a note doesn't rewrite it).
+export function defaultPresetToApply(
+  app: App,
+  source: ListStateSource | null,
+  keys: AdvancedListSettings,
+): FilterPreset | null {
+  const state = readListState(app, source);
+  const name = readDefaultPresetName(state, keys);
+  if (name === null) return null;
+  const preset = readFilterPresets(state, keys).find((p) => p.name === name);
+  if (!preset) return null;
+  return presetsMatch(captureFilterPreset(state, name, keys), preset) ? null : preset;
+}
@@ -0,0 +1,212 @@
+// Link providers: what kind of thing an entry links to, and so how its card
+// offers it. Each provider declares the URL patterns it recognizes and any
+// properties of its own, its badge, the label of the card's primary action
+// ("Watch", "Listen", "Read"), and where a backup copy or the page the entry
+// was found on may be kept.
+//
+// An entry's link is looked for in order: the link property (md_link), then
+// each provider's own properties (in registry order), then a link inside the
+// title property (md_title). Every property is named through LinkKeys, so a
+// key remapped in the settings tab is what gets read. The provider
+// is the one whose property held the link, else the first whose pattern
+// matches it, else the generic "Link" provider at the end of the registry.
+//
+// Providers are matched in registration order; registerLinkProvider puts a
+// new one ahead of the built-ins, so a more specific provider wins.
+
+export interface LinkProvider {
+  id: string;
+  name: string;
+  // Badge shown on the card next to the length.
+  icon: string;
+  // Label of the card's primary action.
+  action: string;
+  // Matched against the entry's link.
+  patterns: RegExp[];
+  // Frontmatter properties that hold this provider's link.
+  properties: (keys: LinkKeys) => string[];
+  // Properties holding a fallback copy (an archive, a mirror).
+  backupProperties: (keys: LinkKeys) => string[];
+  // Properties holding the page the entry came from (a discussion thread),
+  // which the card's Open button prefers over the link itself.
+  sourceProperties: (keys: LinkKeys) => string[];
+}
+
+export interface LinkKeys {
+  linkProperty: string;
+  linkTitleProperty: string;
+  // Fallback copies not tied to any provider.
+  backupLinkProperty: string;
+  redditUrlProperty: string;
+  redditBackupLinkProperty: string;
+  audioProperty: string;
+  fileProperty: string;
+}
+
+export const DEFAULT_LINK_KEYS: LinkKeys = {
+  linkProperty: "md_link",
+  linkTitleProperty: "md_title",
+  backupLinkProperty: "md_backup_link",
+  redditUrlProperty: "reddit_url",
+  redditBackupLinkProperty: "reddit_backup_link",
+  audioProperty: "md_audio",
+  fileProperty: "md_file",
+};
+
+export interface EntryLinks {
+  // Both null when the entry has no link; the others may still be set.
+  provider: LinkProvider | null;
+  url: string | null;
+  backup: string | null;
+  // The page the entry was found on, when a provider recognizes one.
+  source: string | null;
+  sourceProvider: LinkProvider | null;
+}
+
+// Reads a note property as a trimmed string, null when empty or absent.
+export type PropertyReader = (property: string) => string | null;
+
+const MARKDOWN_LINK_RE = /\[.*?\]\((https?:\/\/[^\s)]+)\)/;
+const BARE_URL_RE = /(https?:\/\/[^\s]+)/;
+
+const none = (): string[] => [];
+
+const GENERIC_PROVIDER: LinkProvider = {
+  id: "url",
+  name: "Link",
+  icon: "🔗",
+  action: "Open",
+  patterns: [],
+  properties: none,
+  backupProperties: none,
+  sourceProperties: none,
+};
+
+const providers: LinkProvider[] = [
+  {
+    id: "youtube",
+    name: "YouTube",
+    icon: "▶️",
+    action: "Watch",
+    patterns: [/^https?:\/\/(www\.|m\.|music\.)?youtube\.com\//i, /^https?:\/\/youtu\.be\//i],
+    properties: none,
+    backupProperties: none,
+    sourceProperties: none,
+  },
+  {
+    id: "reddit",
+    name: "Reddit",
+    icon: "💬",
+    action: "Read",
+    patterns: [/^https?:\/\/([\w-]+\.)?reddit\.com\//i, /^https?:\/\/redd\.it\//i],
+    properties: none,
+    backupProperties: (keys) => [keys.redditBackupLinkProperty],
+    sourceProperties: (keys) => [keys.redditUrlProperty],
+  },
+  {
+    id: "podcast",
+    name: "Podcast",
+    icon: "🎧",
+    action: "Listen",
+    patterns: [
+      /^https?:\/\/open\.spotify\.com\/(episode|show)\//i,
+      /^https?:\/\/podcasts\.apple\.com\//i,
+      /^https?:\/\/(overcast\.fm|pca\.st|castbox\.fm)\//i,
+      /\.(mp3|m4a|ogg|opus)(\?|#|$)/i,
+    ],
+    properties: (keys) => [keys.audioProperty],
+    backupProperties: none,
+    sourceProperties: none,
+  },
+  {
+    id: "file",
+    name: "File",
+    icon: "📄",
+    action: "Read",
+    // Wikilinks and file:// URLs; PDFs wherever they live.
+    patterns: [/^\[\[.+\]\]$/, /^file:\/\//i, /\.pdf(\?|#|$)/i],
+    properties: (keys) => [keys.fileProperty],
+    backupProperties: none,
+    sourceProperties: none,
+  },
+  GENERIC_PROVIDER,
+];
+
+export function registerLinkProvider(provider: LinkProvider): void {
+  const existing = providers.findIndex((p) => p.id === provider.id);
+  if (existing !== -1) providers.splice(existing, 1);
+  providers.unshift(provider);
+}
+
+export function linkProviders(): readonly LinkProvider[] {
+  return providers;
+}
+
+export function linkProviderById(id: string): LinkProvider | undefined {
+  return providers.find((p) => p.id === id);
+}
+
+function linkInTitle(title: string | null): string | null {
+  if (!title) return null;
+  return title.match(MARKDOWN_LINK_RE)?.[1] ?? title.match(BARE_URL_RE)?.[1] ?? null;
+}
+
+function firstValue(read: PropertyReader, properties: string[]): string | null {
+  for (const property of properties) {
+    const value = read(property);
+    if (value) return value;
+  }
+  return null;
+}
+
+export function resolveEntryLinks(read: PropertyReader, keys: LinkKeys): EntryLinks {
+  let url = read(keys.linkProperty);
+  let provider: LinkProvider | undefined;
+  if (!url) {
+    for (const candidate of providers) {
+      url = firstValue(read, candidate.properties(keys));
+      if (url) {
+        provider = candidate;
+        break;
+      }
+    }
+  }
+  const link = url ?? linkInTitle(read(keys.linkTitleProperty));
+  if (link) {
+    provider ??=
+      providers.find((p) => p.patterns.some((re) => re.test(link))) ?? GENERIC_PROVIDER;
+  }
+
+  // Its own backups first, then anyone's - an entry found on Reddit keeps
+  // its Reddit backup whatever the link points at.
+  const others = providers
+    .filter((p) => p !== provider)
+    .flatMap((p) => p.backupProperties(keys));
+  const backup = firstValue(read, [
+    ...(provider?.backupProperties(keys) ?? []),
+    ...others,
+    keys.backupLinkProperty,
+  ]);
+
+  let source: string | null = null;
+  let sourceProvider: LinkProvider | null = null;
+  for (const candidate of providers) {
+    source = firstValue(read, candidate.sourceProperties(keys));
+    if (source) {
+      sourceProvider = candidate;
+      break;
+    }
+  }
+
+  return { provider: provider ?? null, url: link, backup, source, sourceProvider };
+}
+
+// Web URLs open in the browser; anything else (a wikilink, a vault path) is
+// a note or file in the vault.
+export function isExternalLink(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+export function toLinktext(url: string): string {
+  return url.replace(/^\[\[|\]\]$/g, "").split("|")[0];
+}
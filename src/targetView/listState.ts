@@ -0,0 +1,84 @@
+// Where a Targets view keeps its list-level state: filters, active target,
+// search and the tag vocabulary. Bound to the view instance rather than to
+// `app.workspace.activeEditor`, which pointed at whatever tab happened to be
+// focused - wrong for a `.base` opened directly, a base in the sidebar, or two
+// list notes embedding the same base. See TargetsView.resolveListSource for the
+// fallback order.
+import { MarkdownView, type App, type BasesViewConfig, type TFile } from "obsidian";
+import { mutationHistory, undoStep, writeFrontmatter, type MutationStep } from "../mutations";
+
+export type ListStateSource =
+  | { kind: "note"; file: TFile }
+  | { kind: "view"; config: BasesViewConfig; notify: () => void };
+
+// View-config key holding the state object when there is no list note.
+export const VIEW_LIST_STATE_KEY = "listState";
+
+// The embedding note is whichever markdown leaf's DOM contains the view. A
+// `.base` opened directly (or in the sidebar) lives in a non-markdown leaf
+// and yields null.
+export function findEmbeddingNote(app: App, el: HTMLElement): TFile | null {
+  let result: TFile | null = null;
+  app.workspace.iterateAllLeaves((leaf) => {
+    if (result) return;
+    const view = leaf.view;
+    if (view instanceof MarkdownView && view.file && view.containerEl.contains(el)) {
+      result = view.file;
+    }
+  });
+  return result;
+}
+
+// Stable identity for effects that should re-run only when the source itself
+// changes, not on every store update.
+export function listSourceKey(source: ListStateSource | null): string {
+  if (!source) return "";
+  return source.kind === "note" ? `note:${source.file.path}` : "view";
+}
+
+export function readListState(
+  app: App,
+  source: ListStateSource | null,
+): Record<string, unknown> | undefined {
+  if (!source) return undefined;
+  if (source.kind === "note") {
+    return app.metadataCache.getFileCache(source.file)?.frontmatter;
+  }
+  const state = source.config.get(VIEW_LIST_STATE_KEY);
+  return state && typeof state === "object"
+    ? (state as Record<string, unknown>)
+    : undefined;
+}
+
+// Same callback shape as processFrontMatter so every writer works against
+// either backend unchanged. Resolves on real completion. Recorded for undo
+// (see mutations.ts) under `step`; a null step writes without recording, for
+// changes the view makes on its own rather than at the user's request.
+export function updateListState(
+  app: App,
+  source: ListStateSource | null,
+  fn: (state: Record<string, any>) => void,
+  step: MutationStep | string | null,
+): Promise<void> {
+  if (!source) return Promise.resolve();
+  if (source.kind === "note") {
+    if (step === null) return app.fileManager.processFrontMatter(source.file, fn);
+    return writeFrontmatter(app, source.file, fn, step);
+  }
+  const write = (apply: (state: Record<string, any>) => void): Promise<void> => {
+    const state = { ...(readListState(app, source) ?? {}) };
+    apply(state);
+    source.config.set(VIEW_LIST_STATE_KEY, state);
+    // Config writes don't go through the metadata cache, so there is no
+    // "changed" event to pick them up - tell the view directly.
+    source.notify();
+    return Promise.resolve();
+  };
+  if (step === null) return write(fn);
+  return mutationHistory(app).record(
+    listSourceKey(source),
+    write,
+    fn,
+    typeof step === "string" ? undoStep(step) : step,
+  );
+}
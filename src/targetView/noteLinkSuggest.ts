@@ -0,0 +1,34 @@
+import { AbstractInputSuggest, type App, type TFile } from "obsidian";
+
+// Note-name completion for the link property editor. Picking a note puts its
+// shortest unambiguous link text in the input and hands it to `onpick`.
+export class NoteLinkSuggest extends AbstractInputSuggest<TFile> {
+  constructor(
+    app: App,
+    inputEl: HTMLInputElement,
+    private sourcePath: string,
+    private onpick: (linktext: string) => void,
+  ) {
+    super(app, inputEl);
+    this.limit = 20;
+  }
+
+  protected getSuggestions(query: string): TFile[] {
+    const needle = query.trim().toLowerCase();
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.toLowerCase().includes(needle));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.createDiv({ text: file.basename });
+    el.createDiv({ text: file.path, cls: "alb-linksuggest__path" });
+  }
+
+  selectSuggestion(file: TFile): void {
+    const linktext = this.app.metadataCache.fileToLinktext(file, this.sourcePath, true);
+    this.setValue(linktext);
+    this.close();
+    this.onpick(linktext);
+  }
+}
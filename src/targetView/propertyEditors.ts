@@ -0,0 +1,142 @@
+// Which inline editor a card property gets, and the conversions between
+// frontmatter values and what the editors' inputs hold.
+//
+// The kind comes from the type the vault assigns the property (the one the
+// Properties panel shows), so an empty property still gets the right editor.
+// That registry isn't in the public API; when it's missing, or the property
+// has no type yet, the current value decides, and "text" is the fallback -
+// the Markdown textarea every note property used to get.
+//
+// Only note properties are editable: formula and file properties have no
+// frontmatter to write to.
+import {
+  BooleanValue,
+  DateValue,
+  LinkValue,
+  ListValue,
+  NumberValue,
+  type App,
+  type Value,
+} from "obsidian";
+
+export type PropertyEditorKind =
+  | "text"
+  | "number"
+  | "date"
+  | "datetime"
+  | "checkbox"
+  | "list"
+  | "link";
+
+interface MetadataTypeManager {
+  getAssignedType?(name: string): string | null | undefined;
+}
+
+const WIKILINK_RE = /^\[\[([^\]]+)\]\]$/;
+
+function assignedType(app: App, name: string): string | null {
+  const manager = (app as unknown as { metadataTypeManager?: MetadataTypeManager })
+    .metadataTypeManager;
+  try {
+    return manager?.getAssignedType?.(name) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function kindFromType(type: string | null): PropertyEditorKind | null {
+  switch (type) {
+    case "number":
+    case "checkbox":
+    case "date":
+    case "datetime":
+      return type;
+    case "multitext":
+    case "tags":
+    case "aliases":
+      return "list";
+    default:
+      return null;
+  }
+}
+
+function kindFromValue(value: Value, raw: unknown): PropertyEditorKind {
+  if (value instanceof NumberValue || typeof raw === "number") return "number";
+  if (value instanceof BooleanValue || typeof raw === "boolean") return "checkbox";
+  if (value instanceof ListValue || Array.isArray(raw)) return "list";
+  if (value instanceof DateValue) {
+    return typeof raw === "string" && raw.includes("T") ? "datetime" : "date";
+  }
+  if (value instanceof LinkValue) return "link";
+  // A text property holding a lone wikilink edits as a link.
+  if (typeof raw === "string" && WIKILINK_RE.test(raw.trim())) return "link";
+  return "text";
+}
+
+// `raw` is the property's current frontmatter value (undefined when absent).
+export function editorKindOf(
+  app: App,
+  name: string,
+  value: Value,
+  raw: unknown,
+): PropertyEditorKind {
+  return kindFromType(assignedType(app, name)) ?? kindFromValue(value, raw);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// What an <input type="date"> / "datetime-local" wants, in local time.
+function toDateInput(raw: unknown, withTime: boolean): string {
+  if (raw === undefined || raw === null || raw === "") return "";
+  const text = String(raw);
+  // Plain dates stay as written: parsing them would shift them a day in
+  // time zones west of UTC.
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return withTime ? `${text}T00:00` : text;
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return "";
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return withTime ? `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+}
+
+export function toInputText(kind: PropertyEditorKind, raw: unknown): string {
+  if (raw === undefined || raw === null) return "";
+  switch (kind) {
+    case "date":
+      return toDateInput(raw, false);
+    case "datetime":
+      return toDateInput(raw, true);
+    case "link": {
+      const text = String(raw).trim();
+      return text.match(WIKILINK_RE)?.[1] ?? text;
+    }
+    default:
+      return String(raw);
+  }
+}
+
+export function toListItems(raw: unknown): string[] {
+  if (raw === undefined || raw === null || raw === "") return [];
+  return (Array.isArray(raw) ? raw : [raw]).map((v) => String(v));
+}
+
+// The frontmatter value for an input's text; null clears the property.
+export function fromInputText(kind: PropertyEditorKind, text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed === "") return null;
+  switch (kind) {
+    case "number": {
+      const n = Number(trimmed);
+      return Number.isFinite(n) ? n : null;
+    }
+    case "link": {
+      const target = trimmed.match(WIKILINK_RE)?.[1] ?? trimmed;
+      return `[[${target}]]`;
+    }
+    default:
+      // Dates keep the input's format: YYYY-MM-DD or YYYY-MM-DDTHH:mm,
+      // which is what Obsidian writes for date and datetime properties.
+      return trimmed;
+  }
+}
@@ -0,0 +1,56 @@
+// Checks behind the roster diagnostics panel. The loader reports what it had
+// to skip (RosterLoad.issues); these look at what it did load - and at the
+// entries - for mistakes that parse fine but misbehave: a duplicate value
+// that makes two people one, a group name with a typo that hides a person
+// from the target picker, an entry still pointing at a removed person.
+import { validateRoster } from "./rosterEdits";
+import type { Roster } from "./targetTypes";
+
+export interface UnknownTargetValue {
+  value: string;
+  // Entries (file paths) whose targets or done list carry the value.
+  paths: string[];
+}
+
+export function diagnoseRoster(roster: Roster): string[] {
+  const problems = validateRoster(roster);
+  const groupValues = new Set(roster.groups.map((g) => g.value));
+  for (const group of roster.groups) {
+    if (group.parent !== "" && !groupValues.has(group.parent)) {
+      problems.push(`Group "${group.value}" is nested in undefined group "${group.parent}".`);
+    }
+  }
+  for (const target of roster.targets) {
+    const unknown = target.groups.filter((g) => !groupValues.has(g));
+    if (unknown.length > 0) {
+      problems.push(
+        `"${target.value}" is in undefined group${unknown.length === 1 ? "" : "s"} ` +
+          unknown.map((g) => `"${g}"`).join(", ") +
+          ".",
+      );
+    }
+  }
+  return problems;
+}
+
+// Values used by entries that the roster doesn't define (by value or alias),
+// most used first. `entries` maps a path to everything in its targets and
+// done lists.
+export function findUnknownTargetValues(
+  roster: Roster,
+  entries: Map<string, string[]>,
+): UnknownTargetValue[] {
+  const known = new Set(roster.targets.flatMap((t) => [t.value, ...t.aliases]));
+  const byValue = new Map<string, string[]>();
+  for (const [path, values] of entries) {
+    for (const value of new Set(values)) {
+      if (known.has(value)) continue;
+      const paths = byValue.get(value) ?? [];
+      paths.push(path);
+      byValue.set(value, paths);
+    }
+  }
+  return [...byValue.entries()]
+    .map(([value, paths]) => ({ value, paths }))
+    .sort((a, b) => b.paths.length - a.paths.length || a.value.localeCompare(b.value));
+}
@@ -0,0 +1,171 @@
+// Support for the roster editor (RosterEditor.svelte): checking an edited
+// roster before it is written, and carrying a renamed target value into the
+// notes that reference it.
+//
+// A roster rename only rewrites the config note; entries keep the old value
+// in md_targets / md_targets_done (and their done log) until
+// renameTargetValues runs. All renames
+// of one save are applied in a single pass per note, so swapping two values
+// (A -> B, B -> A) doesn't collapse them into one.
+import type { App, TFile } from "obsidian";
+import { writeFrontmatter, type MutationStep } from "../mutations";
+import { doneLogTargets, renameDoneLog, type DoneLogKeys } from "./doneHistory";
+import { readListState, updateListState, type ListStateSource } from "./listState";
+import { groupAndDescendants, type Roster } from "./targetTypes";
+
+export interface TargetRename {
+  from: string;
+  to: string;
+}
+
+export interface TargetRenameKeys extends DoneLogKeys {
+  targetsProperty: string;
+  listTargetProperty: string;
+}
+
+export interface TargetRenameResult {
+  updated: number;
+  failed: { path: string; error: string }[];
+}
+
+// Problems that would make the saved roster lose or merge entries once
+// normalizeGroups/normalizeTargets read it back. Empty when it's safe.
+export function validateRoster(roster: Roster): string[] {
+  const problems: string[] = [];
+  const seenGroups = new Set<string>();
+  for (const group of roster.groups) {
+    if (group.value.trim() === "") problems.push("A group has no value.");
+    else if (seenGroups.has(group.value)) problems.push(`Group "${group.value}" is listed twice.`);
+    seenGroups.add(group.value);
+  }
+  for (const group of roster.groups) {
+    if (group.parent !== "" && groupAndDescendants(roster.groups, group.value).has(group.parent)) {
+      problems.push(`Group "${group.value}" is nested inside itself.`);
+    }
+  }
+  const seenTargets = new Set<string>();
+  for (const target of roster.targets) {
+    if (target.value.trim() === "") problems.push("A person has no value.");
+    else if (seenTargets.has(target.value)) problems.push(`"${target.value}" is listed twice.`);
+    seenTargets.add(target.value);
+  }
+  // An alias that is also someone's value (or another person's alias) would
+  // make a note's value match two people.
+  const aliasOwners = new Map<string, string>();
+  for (const target of roster.targets) {
+    for (const alias of target.aliases) {
+      const owner = aliasOwners.get(alias);
+      if (seenTargets.has(alias) && alias !== target.value) {
+        problems.push(`Alias "${alias}" of "${target.value}" is also a person.`);
+      } else if (owner !== undefined && owner !== target.value) {
+        problems.push(`Alias "${alias}" belongs to both "${owner}" and "${target.value}".`);
+      }
+      aliasOwners.set(alias, target.value);
+    }
+  }
+  return problems;
+}
+
+function toStringList(raw: unknown): string[] {
+  if (raw === undefined || raw === null) return [];
+  return (Array.isArray(raw) ? raw : [raw]).map((v) => String(v));
+}
+
+function renameMap(renames: TargetRename[]): Map<string, string> {
+  return new Map(renames.filter((r) => r.from !== r.to).map((r) => [r.from, r.to]));
+}
+
+// Maps every value through the renames at once; duplicates left behind (a
+// rename onto a value the note already had) are dropped, first one kept.
+function renameValues(values: string[], map: Map<string, string>): string[] {
+  return [...new Set(values.map((v) => map.get(v) ?? v))];
+}
+
+// Markdown notes whose targets, done list or done log mention any renamed
+// value, read from the metadata cache.
+export function findTargetReferences(
+  app: App,
+  renames: TargetRename[],
+  keys: TargetRenameKeys,
+): TFile[] {
+  const map = renameMap(renames);
+  if (map.size === 0) return [];
+  return app.vault.getMarkdownFiles().filter((file) => {
+    const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!fm) return false;
+    return [
+      ...toStringList(fm[keys.targetsProperty]),
+      ...toStringList(fm[keys.targetsDoneProperty]),
+      ...doneLogTargets(fm[keys.targetsDoneLogProperty]),
+    ].some((v) => map.has(v));
+  });
+}
+
+// One write at a time through a single chain, like executeTagOperation; a
+// failure is recorded and the rest carry on. The list's active target
+// follows the rename too. `onprogress` fires after each write.
+export function renameTargetValues(
+  app: App,
+  files: TFile[],
+  renames: TargetRename[],
+  listSource: ListStateSource | null,
+  keys: TargetRenameKeys,
+  step: MutationStep,
+  onprogress: (done: number, total: number) => void,
+): Promise<TargetRenameResult> {
+  const map = renameMap(renames);
+  const result: TargetRenameResult = { updated: 0, failed: [] };
+  const active = readListState(app, listSource)?.[keys.listTargetProperty];
+  const renamesActive = typeof active === "string" && map.has(active);
+  const total = files.length + (renamesActive ? 1 : 0);
+  let done = 0;
+
+  let queue: Promise<void> = Promise.resolve();
+  function enqueue(path: string, write: () => Promise<void>): void {
+    queue = queue
+      .then(write)
+      .then(() => {
+        result.updated++;
+      })
+      .catch((e) => {
+        console.error("[rosterEdits]", path, e);
+        result.failed.push({ path, error: e instanceof Error ? e.message : String(e) });
+      })
+      .then(() => onprogress(++done, total));
+  }
+
+  for (const file of files) {
+    enqueue(file.path, () =>
+      writeFrontmatter(
+        app,
+        file,
+        (fm) => {
+          for (const key of [keys.targetsProperty, keys.targetsDoneProperty]) {
+            if (fm[key] === undefined) continue;
+            fm[key] = renameValues(toStringList(fm[key]), map);
+          }
+          renameDoneLog(fm, keys.targetsDoneLogProperty, map);
+        },
+        step,
+      ),
+    );
+  }
+
+  if (renamesActive) {
+    enqueue("list state", () =>
+      updateListState(
+        app,
+        listSource,
+        (state) => {
+          const current = state[keys.listTargetProperty];
+          if (typeof current === "string" && map.has(current)) {
+            state[keys.listTargetProperty] = map.get(current);
+          }
+        },
+        step,
+      ),
+    );
+  }
+
+  return queue.then(() => result);
+}
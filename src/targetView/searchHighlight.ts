@@ -0,0 +1,125 @@
+// Search-hit highlighting for the Targets cards, in two flavors:
+// - splitHighlights: for text Svelte renders itself - returns segments for an
+//   {#each}, never touching DOM Svelte owns.
+// - highlightMatches: a Svelte action for renderer-owned DOM (Value.renderTo,
+//   MarkdownRenderer). Those render asynchronously, so a MutationObserver
+//   re-applies the marks after each render. It only ever edits text inside
+//   HIGHLIGHT_SCOPE - rewriting a Svelte-owned text node would detach it from
+//   Svelte's updates.
+const MARK_CLASS = "alb-search-hit";
+const HIGHLIGHT_SCOPE = ".property-value, .property-view";
+const SKIP_SELECTOR = "input, textarea, select, [contenteditable='true']";
+
+export interface HighlightSegment {
+  text: string;
+  hit: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildPattern(terms: string[]): RegExp | null {
+  const usable = terms.filter((t) => t.trim() !== "");
+  if (usable.length === 0) return null;
+  return new RegExp(usable.map(escapeRegExp).join("|"), "gi");
+}
+
+export function splitHighlights(
+  text: string,
+  terms: string[],
+): HighlightSegment[] {
+  const pattern = buildPattern(terms);
+  if (!pattern) return [{ text, hit: false }];
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ text: text.slice(last, index), hit: false });
+    segments.push({ text: match[0], hit: true });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), hit: false });
+  return segments;
+}
+
+function clearMarks(root: HTMLElement): void {
+  for (const mark of Array.from(root.querySelectorAll(`mark.${MARK_CLASS}`))) {
+    const parent = mark.parentNode;
+    mark.replaceWith(document.createTextNode(mark.textContent ?? ""));
+    parent?.normalize();
+  }
+}
+
+function applyMarks(root: HTMLElement, terms: string[]): void {
+  clearMarks(root);
+  const pattern = buildPattern(terms);
+  if (!pattern) return;
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const parent = node.parentElement;
+    if (!parent?.closest(HIGHLIGHT_SCOPE)) continue;
+    if (parent.closest(SKIP_SELECTOR)) continue;
+    textNodes.push(node);
+  }
+
+  for (const node of textNodes) {
+    const text = node.data;
+    pattern.lastIndex = 0;
+    if (!pattern.test(text)) continue;
+    pattern.lastIndex = 0;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      if (index > last) fragment.append(text.slice(last, index));
+      const mark = document.createElement("mark");
+      mark.className = MARK_CLASS;
+      mark.textContent = match[0];
+      fragment.append(mark);
+      last = index + match[0].length;
+    }
+    if (last < text.length) fragment.append(text.slice(last));
+    node.replaceWith(fragment);
+  }
+}
+
+export function highlightMatches(
+  node: HTMLElement,
+  terms: string[],
+): { update(next: string[]): void; destroy(): void } {
+  let current = terms;
+  let frame: number | undefined;
+
+  const observer = new MutationObserver(() => schedule());
+
+  function run(): void {
+    frame = undefined;
+    // Our own DOM edits would otherwise re-trigger the observer forever.
+    observer.disconnect();
+    applyMarks(node, current);
+    observer.observe(node, { childList: true, subtree: true, characterData: true });
+  }
+
+  function schedule(): void {
+    if (frame !== undefined) return;
+    frame = window.requestAnimationFrame(run);
+  }
+
+  run();
+
+  return {
+    update(next: string[]): void {
+      current = next;
+      schedule();
+    },
+    destroy(): void {
+      if (frame !== undefined) window.cancelAnimationFrame(frame);
+      observer.disconnect();
+    },
+  };
+}
@@ -0,0 +1,167 @@
+// Pure parsing/matching for the Targets view search box. No DOM, no app - the
+// view builds a SearchableEntry per card and asks matchesSearch; highlighting
+// lives in searchHighlight.ts.
+//
+// Syntax (terms are ANDed):
+//   word            substring of title, property values, tags, targets, body
+//   "two words"     phrase, same fields
+//   -word           negation; works on every term kind below too
+//   tag:music       entry has the tag or one nested under it (case-insensitive)
+//   target:Eli      entry is queued for the target (case-insensitive)
+//   len:<10         length in minutes; <, <=, >, >=, = or a bare number
+// Qualifier values may be quoted: tag:"deep work". Anything that looks like a
+// qualifier but isn't one (e.g. a URL) is searched as plain text.
+import { hasTagOrDescendant } from "./tags/tagModel";
+
+export type LengthOp = "<" | "<=" | ">" | ">=" | "=";
+
+export type SearchTerm =
+  | { kind: "text"; value: string; negated: boolean }
+  | { kind: "tag"; value: string; negated: boolean }
+  | { kind: "target"; value: string; negated: boolean }
+  | { kind: "length"; op: LengthOp; value: number; negated: boolean };
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+}
+
+export interface SearchableEntry {
+  title: string;
+  fields: string[];
+  tags: string[];
+  targets: string[];
+  body: string;
+  lengthMinutes: number | null;
+}
+
+export const EMPTY_SEARCH_QUERY: SearchQuery = { terms: [] };
+
+// One raw token: optional `-`, optional `qualifier:`, then a quoted or bare
+// value.
+const TOKEN_RE = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g;
+const LENGTH_RE = /^(<=|>=|<|>|=)?\s*(\d+(?:\.\d+)?)$/;
+
+function qualifiedTerm(
+  qualifier: string,
+  value: string,
+  negated: boolean,
+): SearchTerm | null {
+  switch (qualifier.toLowerCase()) {
+    case "tag":
+      return { kind: "tag", value, negated };
+    case "target":
+      return { kind: "target", value, negated };
+    case "len":
+    case "length": {
+      const match = value.match(LENGTH_RE);
+      if (!match) return null;
+      const op = (match[1] as LengthOp | undefined) ?? "=";
+      return { kind: "length", op, value: Number(match[2]), negated };
+    }
+    default:
+      return null;
+  }
+}
+
+export function parseSearchQuery(raw: string): SearchQuery {
+  const terms: SearchTerm[] = [];
+  for (const match of raw.matchAll(TOKEN_RE)) {
+    const [whole, dash, qualifier, quoted, bare] = match;
+    const negated = dash === "-";
+    const value = (quoted ?? bare ?? "").trim();
+    // A lone "-" or an empty "" is noise, not a term.
+    if (value === "") continue;
+
+    let term: SearchTerm | null = null;
+    if (qualifier) term = qualifiedTerm(qualifier, value, negated);
+    if (!term) {
+      // Unknown qualifier: search the whole token (minus the negation) as text.
+      const text = qualifier ? whole.slice(dash.length) : value;
+      term = { kind: "text", value: text.replace(/"/g, ""), negated };
+    }
+    terms.push(term);
+  }
+  return { terms };
+}
+
+function compareLength(length: number, op: LengthOp, value: number): boolean {
+  switch (op) {
+    case "<":
+      return length < value;
+    case "<=":
+      return length <= value;
+    case ">":
+      return length > value;
+    case ">=":
+      return length >= value;
+    default:
+      return length === value;
+  }
+}
+
+function textMatches(entry: SearchableEntry, needle: string): boolean {
+  const lower = needle.toLocaleLowerCase();
+  const haystacks = [
+    entry.title,
+    ...entry.fields,
+    ...entry.tags,
+    ...entry.targets,
+    entry.body,
+  ];
+  return haystacks.some((h) => h.toLocaleLowerCase().includes(lower));
+}
+
+function termMatches(entry: SearchableEntry, term: SearchTerm): boolean {
+  switch (term.kind) {
+    case "text":
+      return textMatches(entry, term.value);
+    case "tag":
+      return hasTagOrDescendant(entry.tags, term.value);
+    case "target": {
+      const lower = term.value.toLocaleLowerCase();
+      return entry.targets.some((t) => t.toLocaleLowerCase() === lower);
+    }
+    case "length":
+      // No known length never satisfies a length term (so `-len:<5` keeps it).
+      return (
+        entry.lengthMinutes !== null &&
+        compareLength(entry.lengthMinutes, term.op, term.value)
+      );
+  }
+}
+
+export function matchesSearch(
+  entry: SearchableEntry,
+  query: SearchQuery,
+): boolean {
+  return query.terms.every((term) => termMatches(entry, term) !== term.negated);
+}
+
+// Positive free-text terms - the only ones worth highlighting in a card.
+export function highlightTermsOf(query: SearchQuery): string[] {
+  const terms: string[] = [];
+  for (const term of query.terms) {
+    if (term.kind === "text" && !term.negated) terms.push(term.value);
+  }
+  return terms;
+}
+
+// Short excerpt of `body` around the first highlight term, for cards whose
+// only match is in the (otherwise unrendered) note body.
+export function bodySnippet(
+  body: string,
+  terms: string[],
+  radius = 60,
+): string | null {
+  const lowerBody = body.toLocaleLowerCase();
+  for (const term of terms) {
+    const index = lowerBody.indexOf(term.toLocaleLowerCase());
+    if (index === -1) continue;
+    const start = Math.max(0, index - radius);
+    const end = Math.min(body.length, index + term.length + radius);
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < body.length ? "…" : "";
+    return `${prefix}${body.slice(start, end).replace(/\s+/g, " ")}${suffix}`;
+  }
+  return null;
+}
@@ -0,0 +1,39 @@
+import { FuzzySuggestModal, renderResults, type App, type FuzzyMatch } from "obsidian";
+import type { TagState } from "./tagTypes";
+
+const STATE_MARKS: Record<TagState, string> = {
+  neutral: "",
+  include: "✓ ",
+  require: "∧ ",
+  exclude: "✕ ",
+};
+
+// Fuzzy picker over the list vocabulary for the "Toggle tag filter" command.
+// The current filter state is shown as the same marks the tag cloud uses.
+export class TagFilterSuggestModal extends FuzzySuggestModal<{ tag: string; state: TagState }> {
+  constructor(
+    app: App,
+    private choices: { tag: string; state: TagState }[],
+    private onchoose: (tag: string) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Toggle a tag filter…");
+  }
+
+  getItems(): { tag: string; state: TagState }[] {
+    return this.choices;
+  }
+
+  getItemText(item: { tag: string; state: TagState }): string {
+    return item.tag;
+  }
+
+  renderSuggestion(match: FuzzyMatch<{ tag: string; state: TagState }>, el: HTMLElement): void {
+    el.createSpan({ text: STATE_MARKS[match.item.state], cls: "alb-tag-suggest__state" });
+    renderResults(el.createSpan(), match.item.tag, match.match);
+  }
+
+  onChooseItem(item: { tag: string; state: TagState }): void {
+    this.onchoose(item.tag);
+  }
+}
@@ -0,0 +1,43 @@
+import { Modal, type App } from "obsidian";
+import { mount, unmount } from "svelte";
+import TagManager from "./TagManager.svelte";
+import type { ListStateSource } from "../listState";
+import type { TagKeys } from "./tagTypes";
+
+// Thin Obsidian shell around TagManager.svelte; all the logic lives in the
+// component and tagManagement.ts.
+export class TagManagerModal extends Modal {
+  private component: ReturnType<typeof mount> | undefined;
+
+  constructor(
+    app: App,
+    private listSource: ListStateSource | null,
+    private keys: TagKeys,
+    private initialTag: string,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Manage tag");
+    this.modalEl.addClass("alb-tagmanager-modal");
+    this.component = mount(TagManager, {
+      target: this.contentEl,
+      props: {
+        app: this.app,
+        listSource: this.listSource,
+        keys: this.keys,
+        initialTag: this.initialTag,
+        onclose: () => this.close(),
+      },
+    });
+  }
+
+  onClose(): void {
+    if (this.component) {
+      unmount(this.component);
+      this.component = undefined;
+    }
+    this.contentEl.empty();
+  }
+}
@@ -6,23 +6,34 @@
 // it performs no writes of its own, reporting intent up to EntryTags through
 // `ontoggle`/`oncreate` so every write funnels into that component's
 // serialization queue.
-import type { App, BasesEntry, TFile } from "obsidian";
-import type { TagFilters } from "./tagTypes";
+import type { App, BasesEntry } from "obsidian";
+import type { ListStateSource } from "../listState";
+import type { TagFilters, TagKeys } from "./tagTypes";
 
 export interface TagCloudProps {
   app: App;
-  listFile: TFile | null;
+  listSource: ListStateSource | null;
   vocabulary: string[];
   entryTagLists: string[][];
   filters: TagFilters;
+  keys: TagKeys;
   onannounce: (msg: string) => void;
 }
 
 export interface EntryTagsProps {
   app: App;
   entry: BasesEntry;
-  listFile: TFile | null;
+  listSource: ListStateSource | null;
   tags: string[];
   vocabulary: string[];
+  keys: TagKeys;
   onannounce: (msg: string) => void;
 }
+
+export interface TagManagerProps {
+  app: App;
+  listSource: ListStateSource | null;
+  keys: TagKeys;
+  initialTag: string;
+  onclose: () => void;
+}
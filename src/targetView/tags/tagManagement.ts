@@ -0,0 +1,195 @@
+// Vault-wide tag rename / merge / delete, driven by TagManager.svelte.
+//
+// Split into plan and execute so the modal can preview exactly what will be
+// touched before anything is written. The plan is a snapshot for display
+// only: every write re-reads its own frontmatter inside processFrontMatter
+// and re-applies the operation there, so an edit that lands between preview
+// and apply is kept rather than clobbered.
+//
+// Rename and merge carry nested tags along (`video` -> `clips` also turns
+// `video/talk` into `clips/talk`); delete removes only the exact tag. The
+// free-form tag expression is left alone - it's user-authored text, and the
+// expression editor shows an unknown tag the same way as any other.
+import type { App, TFile } from "obsidian";
+import { readListState, updateListState, type ListStateSource } from "../listState";
+import { undoStep, writeFrontmatter, type MutationStep } from "../../mutations";
+import { normalizeTagInput, normalizeTagList, sameTag, tagKey } from "./tagModel";
+import { TAG_PATH_SEPARATOR, type TagKeys } from "./tagTypes";
+
+export type TagOperation =
+  | { kind: "rename"; from: string; to: string }
+  | { kind: "merge"; from: string[]; to: string }
+  | { kind: "delete"; tag: string };
+
+export interface TagChange {
+  before: string[];
+  after: string[];
+}
+
+export interface TagFileChange extends TagChange {
+  file: TFile;
+}
+
+export interface TagOperationPlan {
+  files: TagFileChange[];
+  // Only the list-level arrays that actually change, keyed by frontmatter key.
+  list: Record<string, TagChange>;
+}
+
+export interface TagOperationResult {
+  updated: number;
+  failed: { path: string; error: string }[];
+  // Every write of the run, undone as one.
+  step: MutationStep;
+}
+
+// Maps one tag through the operation: the new name, or null to drop it.
+function mapTag(tag: string, op: TagOperation): string | null {
+  if (op.kind === "delete") return sameTag(tag, op.tag) ? null : tag;
+  const sources = op.kind === "rename" ? [op.from] : op.from;
+  const key = tagKey(tag);
+  for (const source of sources) {
+    const sourceKey = tagKey(source);
+    if (key === sourceKey) return op.to;
+    if (key.startsWith(sourceKey + TAG_PATH_SEPARATOR)) {
+      // Keep the descendant's own casing below the renamed prefix.
+      const normalized = normalizeTagInput(tag) ?? tag;
+      return op.to + normalized.slice(sourceKey.length);
+    }
+  }
+  return tag;
+}
+
+// normalizeTagList dedupes after mapping, so a merge that lands a note on a
+// tag it already had leaves one copy (first occurrence wins, order kept).
+export function applyTagOperation(tags: string[], op: TagOperation): string[] {
+  const mapped: string[] = [];
+  for (const tag of tags) {
+    const next = mapTag(tag, op);
+    if (next !== null) mapped.push(next);
+  }
+  return normalizeTagList(mapped);
+}
+
+// Exact comparison - a case-only rename (`Podcast` -> `podcast`) is a change.
+function listsDiffer(a: string[], b: string[]): boolean {
+  return a.length !== b.length || a.some((t, i) => t !== b[i]);
+}
+
+function listKeysOf(keys: TagKeys): string[] {
+  return [
+    keys.listTagsProperty,
+    keys.listTagsOnlyShowProperty,
+    keys.listTagsRequiredProperty,
+    keys.listTagsHiddenProperty,
+  ];
+}
+
+// Every markdown note in the vault whose tags property is non-empty, read
+// from the metadata cache (see readEntryTags for why not entry.getValue).
+export function collectVaultTags(app: App, keys: TagKeys): Map<TFile, string[]> {
+  const result = new Map<TFile, string[]>();
+  for (const file of app.vault.getMarkdownFiles()) {
+    const fm = app.metadataCache.getFileCache(file)?.frontmatter;
+    const tags = normalizeTagList(fm?.[keys.tagsProperty]);
+    if (tags.length > 0) result.set(file, tags);
+  }
+  return result;
+}
+
+export function planTagOperation(
+  app: App,
+  vaultTags: Map<TFile, string[]>,
+  listSource: ListStateSource | null,
+  op: TagOperation,
+  keys: TagKeys,
+): TagOperationPlan {
+  const files: TagFileChange[] = [];
+  for (const [file, before] of vaultTags) {
+    const after = applyTagOperation(before, op);
+    if (listsDiffer(before, after)) files.push({ file, before, after });
+  }
+  files.sort((a, b) => a.file.path.localeCompare(b.file.path));
+
+  const list: Record<string, TagChange> = {};
+  const state = readListState(app, listSource);
+  for (const key of listKeysOf(keys)) {
+    const before = normalizeTagList(state?.[key]);
+    const after = applyTagOperation(before, op);
+    if (listsDiffer(before, after)) list[key] = { before, after };
+  }
+  return { files, list };
+}
+
+export function describeTagOperation(op: TagOperation): string {
+  if (op.kind === "rename") return `Renamed "${op.from}" to "${op.to}"`;
+  if (op.kind === "merge") return `Merged ${op.from.length} tag(s) into "${op.to}"`;
+  return `Deleted "${op.tag}"`;
+}
+
+// Runs every write through one promise chain, in the spirit of
+// EntryTags.enqueue: one processFrontMatter at a time, and a failure is
+// recorded and skipped rather than aborting the rest. `onprogress` fires
+// after each write with (done, total). Resolves once the chain drains.
+export function executeTagOperation(
+  app: App,
+  plan: TagOperationPlan,
+  listSource: ListStateSource | null,
+  op: TagOperation,
+  keys: TagKeys,
+  onprogress: (done: number, total: number) => void,
+): Promise<TagOperationResult> {
+  const result: TagOperationResult = {
+    updated: 0,
+    failed: [],
+    step: undoStep(describeTagOperation(op)),
+  };
+  const hasListChanges = listSource !== null && Object.keys(plan.list).length > 0;
+  const total = plan.files.length + (hasListChanges ? 1 : 0);
+  let done = 0;
+
+  let queue: Promise<void> = Promise.resolve();
+  function enqueue(path: string, write: () => Promise<void>): void {
+    queue = queue
+      .then(write)
+      .then(() => {
+        result.updated++;
+      })
+      .catch((e) => {
+        console.error("[tagManagement]", path, e);
+        result.failed.push({ path, error: e instanceof Error ? e.message : String(e) });
+      })
+      .then(() => onprogress(++done, total));
+  }
+
+  for (const { file } of plan.files) {
+    enqueue(file.path, () =>
+      writeFrontmatter(
+        app,
+        file,
+        (fm) => {
+          // `md_tags` keeps `[]` when emptied, matching removeEntryTag.
+          fm[keys.tagsProperty] = applyTagOperation(normalizeTagList(fm[keys.tagsProperty]), op);
+        },
+        result.step,
+      ),
+    );
+  }
+
+  if (hasListChanges) {
+    enqueue("list state", () =>
+      updateListState(app, listSource, (fm) => {
+        for (const key of listKeysOf(keys)) {
+          if (fm[key] === undefined) continue;
+          const next = applyTagOperation(normalizeTagList(fm[key]), op);
+          // Filter arrays are deleted when empty (see setTagState); the
+          // vocabulary key never is (see addToVocabulary).
+          if (next.length === 0 && key !== keys.listTagsProperty) delete fm[key];
+          else fm[key] = next;
+        }
+      }, result.step),
+    );
+  }
+
+  return queue.then(() => result);
+}
@@ -3,28 +3,31 @@
 // arguments (plus, for the `read*` helpers, the metadata cache) so it is safe
 // to call from a `$derived.by`.
 import type { App, TFile } from "obsidian";
+import { readListState, type ListStateSource } from "../listState";
 import {
-  LIST_TAGS_HIDDEN_PROPERTY,
-  LIST_TAGS_ONLY_SHOW_PROPERTY,
-  LIST_TAGS_PROPERTY,
-  TAGS_PROPERTY,
+  TAG_PATH_SEPARATOR,
   UNTAGGED_TOKEN,
   UNTAGGED_LABEL,
   type ListTagState,
   type TagCloudItem,
+  type TagExpression,
+  type TagExpressionNode,
   type TagFilters,
+  type TagKeys,
   type TagState,
 } from "./tagTypes";
 
 // Shared by normalizeTagInput/tagKey: trim -> strip ONE leading `#` -> trim
-// -> collapse internal whitespace runs to a single space. Case is left alone
+// -> collapse internal whitespace runs to a single space -> drop whitespace
+// around path separators (`video / talk` is `video/talk`). Case is left alone
 // here; tagKey lowercases on top of this.
 function normalizeCore(raw: string): string {
   return String(raw)
     .trim()
     .replace(/^#/, "")
     .trim()
-    .replace(/\s+/g, " ");
+    .replace(/\s+/g, " ")
+    .replace(/ ?\/ ?/g, TAG_PATH_SEPARATOR);
 }
 
 export function normalizeTagInput(raw: string): string | null {
@@ -45,6 +48,30 @@ export function hasTag(list: readonly string[], name: string): boolean {
   return list.some((t) => sameTag(t, name));
 }
 
+// Proper prefixes of a nested tag, root first: `a/b/c` -> [`a`, `a/b`].
+// Casing follows `name`.
+export function tagAncestorPaths(name: string): string[] {
+  const segments = normalizeCore(name).split(TAG_PATH_SEPARATOR);
+  const paths: string[] = [];
+  for (let i = 1; i < segments.length; i++) {
+    const path = segments.slice(0, i).join(TAG_PATH_SEPARATOR);
+    if (path !== "") paths.push(path); // malformed `/a` has no real parent
+  }
+  return paths;
+}
+
+export function isTagOrDescendant(tag: string, ancestor: string): boolean {
+  const key = tagKey(tag);
+  const ancestorKey = tagKey(ancestor);
+  return key === ancestorKey || key.startsWith(ancestorKey + TAG_PATH_SEPARATOR);
+}
+
+// The hierarchical counterpart of hasTag: does `list` carry `name` itself or
+// anything nested under it?
+export function hasTagOrDescendant(list: readonly string[], name: string): boolean {
+  return list.some((t) => isTagOrDescendant(t, name));
+}
+
 // Accepts a scalar as a one-element list (the live vault has `md_tags: music`
 // scalars). Drops nulls, dedupes by tagKey (first occurrence wins), and
 // PRESERVES source order - callers that want a sorted view (e.g. the tag
@@ -76,14 +103,16 @@ export function normalizeTagList(raw: unknown): string[] {
 const INVALID_TAG_CHARS_RE = /[,#[\]"'\n]/;
 
 // Rejects: length < 2 after normalization; a leading `-`; any of
-// `, # [ ] " ' \n` (YAML/Obsidian hazards); and anything whose tagKey equals
-// UNTAGGED_TOKEN - the sentinel must never land in a note.
+// `, # [ ] " ' \n` (YAML/Obsidian hazards); an empty path segment (`a//b`,
+// `/a`, `a/`); and anything whose tagKey equals UNTAGGED_TOKEN - the
+// sentinel must never land in a note.
 export function isValidTagName(raw: string): boolean {
   const normalized = normalizeTagInput(raw);
   if (normalized === null) return false;
   if (normalized.length < 2) return false;
   if (normalized.startsWith("-")) return false;
   if (INVALID_TAG_CHARS_RE.test(normalized)) return false;
+  if (normalized.split(TAG_PATH_SEPARATOR).some((s) => s === "")) return false;
   if (tagKey(normalized) === UNTAGGED_TOKEN) return false;
   return true;
 }
@@ -96,47 +125,203 @@ export function findExistingTag(
   return pool.find((t) => tagKey(t) === key);
 }
 
-// Single choke point for "which note holds the list config", matching
-// today's `app.workspace.activeEditor?.file` behavior used throughout
-// targetView.svelte.
-export function resolveListFile(app: App): TFile | null {
-  return app.workspace.activeEditor?.file ?? null;
-}
-
 // Reads live metadata-cache frontmatter, NOT entry.getValue - entry.getValue
 // returns a stale snapshot from the last Bases query and does not refresh
 // after processFrontMatter. This is the single most important contract in
 // the whole tag feature.
-export function readEntryTags(app: App, file: TFile): string[] {
+export function readEntryTags(
+  app: App,
+  file: TFile,
+  keys: TagKeys,
+): string[] {
   const fm = app.metadataCache.getFileCache(file)?.frontmatter;
-  return normalizeTagList(fm?.[TAGS_PROPERTY]);
+  return normalizeTagList(fm?.[keys.tagsProperty]);
 }
 
+// The list-level half lives wherever the view keeps its list state (a note's
+// frontmatter or the view config) - see listState.ts.
 export function readListTagState(
   app: App,
-  file: TFile | null,
+  source: ListStateSource | null,
+  keys: TagKeys,
 ): ListTagState {
-  if (!file) {
-    return { vocabulary: [], filters: { include: [], exclude: [] } };
+  const fm = readListState(app, source);
+  if (!fm) {
+    return {
+      vocabulary: [],
+      filters: { include: [], require: [], exclude: [], expression: null },
+    };
   }
-  const fm = app.metadataCache.getFileCache(file)?.frontmatter;
-  const vocabulary = normalizeTagList(fm?.[LIST_TAGS_PROPERTY]);
-  const include = normalizeTagList(fm?.[LIST_TAGS_ONLY_SHOW_PROPERTY]);
-  const exclude = normalizeTagList(fm?.[LIST_TAGS_HIDDEN_PROPERTY]);
-  return { vocabulary, filters: { include, exclude } };
+  const vocabulary = normalizeTagList(fm[keys.listTagsProperty]);
+  const include = normalizeTagList(fm[keys.listTagsOnlyShowProperty]);
+  // Older notes carry neither of these; both read as "no filter".
+  const require = normalizeTagList(fm[keys.listTagsRequiredProperty]);
+  const exclude = normalizeTagList(fm[keys.listTagsHiddenProperty]);
+  const rawExpression = fm[keys.listTagsExpressionProperty];
+  const expression =
+    typeof rawExpression === "string" && rawExpression.trim() !== ""
+      ? parseTagExpression(rawExpression)
+      : null;
+  return { vocabulary, filters: { include, require, exclude, expression } };
 }
 
 export function tagStateOf(tag: string, filters: TagFilters): TagState {
   if (hasTag(filters.include, tag)) return "include";
+  if (hasTag(filters.require, tag)) return "require";
   if (hasTag(filters.exclude, tag)) return "exclude";
   return "neutral";
 }
 
+// --- Tag expressions -------------------------------------------------------
+//
+//   music AND live                  both tags
+//   (talk OR lecture) NOT watched   juxtaposition is AND
+//   "deep work" | -watched          quoted names; `&`, `|`, `!`/`-` aliases
+//   __untagged__ OR music           UNTAGGED_TOKEN matches notes with no tags
+//
+// Keywords are case-insensitive; quote a tag literally named "and"/"or"/"not".
+// Precedence: NOT > AND > OR.
+
+type ExpressionToken =
+  | { kind: "and" | "or" | "not" | "open" | "close" }
+  | { kind: "tag"; name: string };
+
+class TagExpressionError extends Error {}
+
+const BARE_TAG_RE = /^[^\s()"&|]+/;
+
+function tokenizeTagExpression(source: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "open" : "close" });
+      i++;
+    } else if (ch === "&" || ch === "|") {
+      tokens.push({ kind: ch === "&" ? "and" : "or" });
+      // `&&` / `||` read the same as the single form.
+      i += source[i + 1] === ch ? 2 : 1;
+    } else if (ch === "!" || ch === "-") {
+      tokens.push({ kind: "not" });
+      i++;
+    } else if (ch === '"') {
+      const end = source.indexOf('"', i + 1);
+      if (end === -1) throw new TagExpressionError("Unclosed quote");
+      const name = normalizeTagInput(source.slice(i + 1, end));
+      if (name === null) throw new TagExpressionError("Empty tag name");
+      tokens.push({ kind: "tag", name });
+      i = end + 1;
+    } else {
+      const word = source.slice(i).match(BARE_TAG_RE)?.[0] ?? ch;
+      const keyword = word.toLowerCase();
+      if (keyword === "and" || keyword === "or" || keyword === "not") {
+        tokens.push({ kind: keyword });
+      } else {
+        const name = normalizeTagInput(word);
+        if (name === null) throw new TagExpressionError("Empty tag name");
+        tokens.push({ kind: "tag", name });
+      }
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+// Recursive descent over the token list: or -> and -> not -> primary.
+function parseTokens(tokens: ExpressionToken[]): TagExpressionNode {
+  let pos = 0;
+
+  function startsOperand(): boolean {
+    const kind = tokens[pos]?.kind;
+    return kind === "tag" || kind === "open" || kind === "not";
+  }
+
+  function parseOr(): TagExpressionNode {
+    const operands = [parseAnd()];
+    while (tokens[pos]?.kind === "or") {
+      pos++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: "or", operands };
+  }
+
+  function parseAnd(): TagExpressionNode {
+    const operands = [parseNot()];
+    while (tokens[pos]?.kind === "and" || startsOperand()) {
+      if (tokens[pos].kind === "and") pos++;
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { kind: "and", operands };
+  }
+
+  function parseNot(): TagExpressionNode {
+    if (tokens[pos]?.kind === "not") {
+      pos++;
+      return { kind: "not", operand: parseNot() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): TagExpressionNode {
+    const token = tokens[pos];
+    if (!token) throw new TagExpressionError("Expression ends too early");
+    if (token.kind === "tag") {
+      pos++;
+      return { kind: "tag", name: token.name };
+    }
+    if (token.kind === "open") {
+      pos++;
+      const inner = parseOr();
+      if (tokens[pos]?.kind !== "close") throw new TagExpressionError('Missing ")"');
+      pos++;
+      return inner;
+    }
+    if (token.kind === "close") throw new TagExpressionError('Unexpected ")"');
+    throw new TagExpressionError(`Expected a tag before ${token.kind.toUpperCase()}`);
+  }
+
+  const root = parseOr();
+  if (pos < tokens.length) throw new TagExpressionError('Unexpected ")"');
+  return root;
+}
+
+// Never throws: a bad expression comes back with `error` set so the UI can
+// show it while the filter itself stays inert.
+export function parseTagExpression(source: string): TagExpression {
+  try {
+    const tokens = tokenizeTagExpression(source);
+    const root = tokens.length === 0 ? null : parseTokens(tokens);
+    return { source, root, error: null };
+  } catch (e) {
+    if (!(e instanceof TagExpressionError)) throw e;
+    return { source, root: null, error: e.message };
+  }
+}
+
+function evaluateTagExpression(node: TagExpressionNode, tags: string[]): boolean {
+  switch (node.kind) {
+    case "tag":
+      return tagKey(node.name) === UNTAGGED_TOKEN
+        ? tags.length === 0
+        : hasTagOrDescendant(tags, node.name);
+    case "not":
+      return !evaluateTagExpression(node.operand, tags);
+    case "and":
+      return node.operands.every((n) => evaluateTagExpression(n, tags));
+    case "or":
+      return node.operands.some((n) => evaluateTagExpression(n, tags));
+  }
+}
+
 // Frozen matching semantics - see targetView.svelte's `visibleEntryData` for
 // how this replaces the old `hasTagsProperty`-guarded filter. Untagged notes
 // now hide under an active include filter unless Untagged is itself
 // included; that is the intended bug fix (previously untagged notes bypassed
-// filtering entirely).
+// filtering entirely). Every filter tag also matches its descendants, so
+// including `video` shows `video/talk`.
 export function matchesTagFilters(
   tags: string[],
   filters: TagFilters,
@@ -144,19 +329,33 @@ export function matchesTagFilters(
   const isUntagged = tags.length === 0;
   if (filters.include.length > 0) {
     const hit =
-      tags.some((t) => hasTag(filters.include, t)) ||
+      filters.include.some((f) => hasTagOrDescendant(tags, f)) ||
       (isUntagged && hasTag(filters.include, UNTAGGED_TOKEN));
     if (!hit) return false; // include is OR across tags
   }
+  for (const tag of filters.require) {
+    // require is AND: every required tag must be present
+    const hit = tagKey(tag) === UNTAGGED_TOKEN ? isUntagged : hasTagOrDescendant(tags, tag);
+    if (!hit) return false;
+  }
   if (filters.exclude.length > 0) {
-    if (tags.some((t) => hasTag(filters.exclude, t))) return false; // exclude wins over include
+    if (filters.exclude.some((f) => hasTagOrDescendant(tags, f))) return false; // exclude wins over include
     if (isUntagged && hasTag(filters.exclude, UNTAGGED_TOKEN)) return false;
   }
+  // The expression is ANDed with the pills, so both can be used at once.
+  const root = filters.expression?.root;
+  if (root && !evaluateTagExpression(root, tags)) return false;
   return true;
 }
 
+// An invalid expression doesn't filter anything, so it doesn't count.
 export function countActiveTagFilters(filters: TagFilters): number {
-  return filters.include.length + filters.exclude.length;
+  return (
+    filters.include.length +
+    filters.require.length +
+    filters.exclude.length +
+    (filters.expression?.root ? 1 : 0)
+  );
 }
 
 export function describeTagFilters(filters: TagFilters): string {
@@ -166,23 +365,31 @@ export function describeTagFilters(filters: TagFilters): string {
 }
 
 // Union of `vocabulary` and all tags actually present (undeclared tags are
-// visible - a current bug being fixed). Sorted by count desc, then
-// localeCompare. Zero-count vocabulary tags are INCLUDED with count: 0. The
-// Untagged item is pinned LAST regardless of count, and is included only
-// when its count > 0 or it is currently filtered.
+// visible - a current bug being fixed), plus every implied parent of a
+// nested tag. Returned in tree order: each tag is followed by its children,
+// siblings sorted by count desc, then localeCompare. Counts roll up - a
+// parent counts each note carrying it or any descendant once, which is
+// exactly what including it would show. Zero-count vocabulary tags are
+// INCLUDED with count: 0. The Untagged item is pinned LAST regardless of
+// count, and is included only when its count > 0 or it is currently
+// filtered.
 export function buildTagCloud(
   vocabulary: string[],
   entryTagLists: string[][],
   filters: TagFilters,
 ): TagCloudItem[] {
-  // key -> canonical display name: vocabulary's casing wins, else first-seen
+  // key -> canonical display path: vocabulary's casing wins, else first-seen
   // scanning entries in order. This stops the vocabulary forking into
-  // Work/work/WORK.
+  // Work/work/WORK. Implied parents take their casing from the first
+  // descendant that introduced them.
   const displayByKey = new Map<string, string>();
-  for (const tag of vocabulary) {
-    const key = tagKey(tag);
-    if (!displayByKey.has(key)) displayByKey.set(key, tag);
-  }
+  const remember = (tag: string): void => {
+    for (const path of [...tagAncestorPaths(tag), tag]) {
+      const key = tagKey(path);
+      if (!displayByKey.has(key)) displayByKey.set(key, path);
+    }
+  };
+  for (const tag of vocabulary) remember(tag);
 
   const counts = new Map<string, number>();
   for (const key of displayByKey.keys()) counts.set(key, 0);
@@ -193,31 +400,60 @@ export function buildTagCloud(
       untaggedCount++;
       continue;
     }
+    // A note tagged both `video/talk` and `video/tutorial` counts once
+    // toward `video`.
+    const keys = new Set<string>();
     for (const tag of tags) {
-      const key = tagKey(tag);
-      if (!displayByKey.has(key)) displayByKey.set(key, tag);
-      counts.set(key, (counts.get(key) ?? 0) + 1);
+      remember(tag);
+      for (const path of [...tagAncestorPaths(tag), tag]) keys.add(tagKey(path));
     }
+    for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
   }
 
-  const items: TagCloudItem[] = [...displayByKey.entries()].map(
-    ([key, label]) => ({
+  const childrenByParent = new Map<string, TagCloudItem[]>();
+  for (const [key, label] of displayByKey) {
+    const ancestorKeys = tagAncestorPaths(label).map(tagKey);
+    const item: TagCloudItem = {
       name: label,
       label,
+      key,
+      segment: label.slice(label.lastIndexOf(TAG_PATH_SEPARATOR) + 1),
+      depth: ancestorKeys.length,
+      ancestorKeys,
+      hasChildren: false,
       isUntagged: false,
       count: counts.get(key) ?? 0,
       state: tagStateOf(label, filters),
       inVocabulary: hasTag(vocabulary, label),
-    }),
-  );
+    };
+    const parentKey = ancestorKeys[ancestorKeys.length - 1] ?? "";
+    const siblings = childrenByParent.get(parentKey) ?? [];
+    siblings.push(item);
+    childrenByParent.set(parentKey, siblings);
+  }
 
-  items.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  const items: TagCloudItem[] = [];
+  const visit = (parentKey: string): void => {
+    const children = childrenByParent.get(parentKey) ?? [];
+    children.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+    for (const child of children) {
+      child.hasChildren = childrenByParent.has(child.key);
+      items.push(child);
+      visit(child.key);
+    }
+  };
+  visit("");
 
   const untaggedState = tagStateOf(UNTAGGED_TOKEN, filters);
   if (untaggedCount > 0 || untaggedState !== "neutral") {
     items.push({
       name: UNTAGGED_TOKEN,
       label: UNTAGGED_LABEL,
+      key: UNTAGGED_TOKEN,
+      segment: UNTAGGED_LABEL,
+      depth: 0,
+      ancestorKeys: [],
+      hasChildren: false,
       isUntagged: true,
       count: untaggedCount,
       state: untaggedState,
@@ -5,6 +5,32 @@ export const TAGS_PROPERTY = "md_tags";
 export const LIST_TAGS_PROPERTY = "md_list_tags";
 export const LIST_TAGS_HIDDEN_PROPERTY = "md_list_tags_hidden";
 export const LIST_TAGS_ONLY_SHOW_PROPERTY = "md_list_tags_only_show";
+// Added later and absent from older notes: tags every shown note must carry
+// (the AND counterpart to `_only_show`), and a free-form boolean expression.
+export const LIST_TAGS_REQUIRED_PROPERTY = "md_list_tags_required";
+export const LIST_TAGS_EXPRESSION_PROPERTY = "md_list_tags_expression";
+
+// The keys actually read/written at runtime. The constants above are only the
+// defaults - the plugin settings tab lets a vault remap every one of them, and
+// every reader/writer in tagModel.ts / tagWrites.ts takes this shape rather
+// than reaching for the constants directly.
+export interface TagKeys {
+  tagsProperty: string;
+  listTagsProperty: string;
+  listTagsHiddenProperty: string;
+  listTagsOnlyShowProperty: string;
+  listTagsRequiredProperty: string;
+  listTagsExpressionProperty: string;
+}
+
+export const DEFAULT_TAG_KEYS: TagKeys = {
+  tagsProperty: TAGS_PROPERTY,
+  listTagsProperty: LIST_TAGS_PROPERTY,
+  listTagsHiddenProperty: LIST_TAGS_HIDDEN_PROPERTY,
+  listTagsOnlyShowProperty: LIST_TAGS_ONLY_SHOW_PROPERTY,
+  listTagsRequiredProperty: LIST_TAGS_REQUIRED_PROPERTY,
+  listTagsExpressionProperty: LIST_TAGS_EXPRESSION_PROPERTY,
+};
 
 // Sentinel tag representing "no tags at all". Never written into a note's own
 // md_tags list (see isValidTagName); only ever appears inside the filter
@@ -12,11 +38,36 @@ export const LIST_TAGS_ONLY_SHOW_PROPERTY = "md_list_tags_only_show";
 export const UNTAGGED_TOKEN = "__untagged__";
 export const UNTAGGED_LABEL = "Untagged";
 
-export type TagState = "neutral" | "include" | "exclude";
+// Nested tags: `video/talk` is a child of `video`. A parent matches its
+// descendants everywhere a filter is evaluated (see matchesTagFilters).
+export const TAG_PATH_SEPARATOR = "/";
+
+// "include" pills are ORed together ("any of"); "require" pills are ANDed
+// ("all of"). Both sit alongside "exclude" in the same pill cycle.
+export type TagState = "neutral" | "include" | "require" | "exclude";
+
+// Parsed form of the expression key - see parseTagExpression. `and`/`or`
+// are n-ary so `a b c` stays one flat node.
+export type TagExpressionNode =
+  | { kind: "tag"; name: string }
+  | { kind: "not"; operand: TagExpressionNode }
+  | { kind: "and"; operands: TagExpressionNode[] }
+  | { kind: "or"; operands: TagExpressionNode[] };
+
+// `root` is null for a blank source. An unparseable expression keeps its
+// source (so the editor can show it) and carries `error` instead of a root;
+// matchesTagFilters ignores it rather than hiding every note.
+export interface TagExpression {
+  source: string;
+  root: TagExpressionNode | null;
+  error: string | null;
+}
 
 export interface TagFilters {
   include: string[];
+  require: string[];
   exclude: string[];
+  expression: TagExpression | null;
 }
 
 export interface ListTagState {
@@ -26,9 +77,14 @@ export interface ListTagState {
 
 export interface TagCloudItem {
   name: string; // raw key; UNTAGGED_TOKEN for the untagged pill
-  label: string; // display text; UNTAGGED_LABEL for the sentinel
+  label: string; // display text (full path); UNTAGGED_LABEL for the sentinel
+  key: string; // tagKey(name) - identity for the tree below
+  segment: string; // last path segment of `label`
+  depth: number; // 0 for top-level tags
+  ancestorKeys: string[]; // root first; [] at depth 0
+  hasChildren: boolean;
   isUntagged: boolean;
-  count: number;
+  count: number; // roll-up: notes carrying this tag or any descendant
   state: TagState;
   inVocabulary: boolean;
 }
@@ -1,100 +1,162 @@
-// Every writer here is a no-op when the file is null (defensive - the frozen
-// signatures below take a non-null TFile, but callers may still race a
-// closed/renamed file, so we guard anyway rather than let
+// Every writer here is a no-op when the file/source is null (defensive - the
+// frozen signatures below take a non-null target, but callers may still race
+// a closed/renamed file, so we guard anyway rather than let
 // processFrontMatter throw).
 //
 // Every writer returns the `processFrontMatter` promise (or a resolved one
 // on an early-return guard path) so callers can chain on real completion -
-// e.g. to serialize several writes against the same file.
+// e.g. to serialize several writes against the same file. List-level writers
+// go through updateListState, which has the same contract.
+//
+// All writes are recorded for undo (mutations.ts). The optional trailing
+// `step` lets a caller fold several of them into one undo step; without it
+// each call is its own.
 import type { App, TFile } from "obsidian";
-import {
-  LIST_TAGS_HIDDEN_PROPERTY,
-  LIST_TAGS_ONLY_SHOW_PROPERTY,
-  LIST_TAGS_PROPERTY,
-  TAGS_PROPERTY,
-  type TagState,
-} from "./tagTypes";
+import { writeFrontmatter, type MutationStep } from "../../mutations";
+import { updateListState, type ListStateSource } from "../listState";
+import type { TagKeys, TagState } from "./tagTypes";
 import { hasTag, isValidTagName, normalizeTagInput, normalizeTagList, sameTag } from "./tagModel";
 
-// Writes both filter arrays in ONE processFrontMatter pass: remove the tag
-// from both, then add to at most one. A tag is never in both.
+// Writes all three filter arrays in ONE processFrontMatter pass: remove the
+// tag from each, then add to at most one. A tag is never in two.
 export function setTagState(
   app: App,
-  listFile: TFile,
+  listSource: ListStateSource,
   tag: string,
   next: TagState,
+  keys: TagKeys,
+  step?: MutationStep,
 ): Promise<void> {
-  if (!listFile) return Promise.resolve();
+  if (!listSource) return Promise.resolve();
   const normalized = normalizeTagInput(tag);
   if (normalized === null) return Promise.resolve();
 
-  return app.fileManager.processFrontMatter(listFile, (fm) => {
-    const include = normalizeTagList(fm[LIST_TAGS_ONLY_SHOW_PROPERTY]).filter(
+  return updateListState(app, listSource, (fm) => {
+    const include = normalizeTagList(fm[keys.listTagsOnlyShowProperty]).filter(
+      (t) => !sameTag(t, normalized),
+    );
+    const require = normalizeTagList(fm[keys.listTagsRequiredProperty]).filter(
       (t) => !sameTag(t, normalized),
     );
-    const exclude = normalizeTagList(fm[LIST_TAGS_HIDDEN_PROPERTY]).filter(
+    const exclude = normalizeTagList(fm[keys.listTagsHiddenProperty]).filter(
       (t) => !sameTag(t, normalized),
     );
 
     if (next === "include") include.push(normalized);
+    else if (next === "require") require.push(normalized);
     else if (next === "exclude") exclude.push(normalized);
 
     // Transient UI state: delete the key entirely when empty, matching the
     // existing `delete frontmatter[LENGTH_FILTER_PROPERTY]` convention.
-    if (include.length > 0) fm[LIST_TAGS_ONLY_SHOW_PROPERTY] = include;
-    else delete fm[LIST_TAGS_ONLY_SHOW_PROPERTY];
+    if (include.length > 0) fm[keys.listTagsOnlyShowProperty] = include;
+    else delete fm[keys.listTagsOnlyShowProperty];
+
+    if (require.length > 0) fm[keys.listTagsRequiredProperty] = require;
+    else delete fm[keys.listTagsRequiredProperty];
+
+    if (exclude.length > 0) fm[keys.listTagsHiddenProperty] = exclude;
+    else delete fm[keys.listTagsHiddenProperty];
+  }, step ?? `Change filter for ${normalized}`);
+}
 
-    if (exclude.length > 0) fm[LIST_TAGS_HIDDEN_PROPERTY] = exclude;
-    else delete fm[LIST_TAGS_HIDDEN_PROPERTY];
-  });
+export function clearTagFilters(
+  app: App,
+  listSource: ListStateSource,
+  keys: TagKeys,
+  step?: MutationStep,
+): Promise<void> {
+  if (!listSource) return Promise.resolve();
+  return updateListState(app, listSource, (fm) => {
+    delete fm[keys.listTagsOnlyShowProperty];
+    delete fm[keys.listTagsHiddenProperty];
+    delete fm[keys.listTagsRequiredProperty];
+    delete fm[keys.listTagsExpressionProperty];
+  }, step ?? "Clear tag filters");
 }
 
-export function clearTagFilters(app: App, listFile: TFile): Promise<void> {
-  if (!listFile) return Promise.resolve();
-  return app.fileManager.processFrontMatter(listFile, (fm) => {
-    delete fm[LIST_TAGS_ONLY_SHOW_PROPERTY];
-    delete fm[LIST_TAGS_HIDDEN_PROPERTY];
-  });
+// Stores the raw text, not the parse - an invalid expression is kept so the
+// user can fix it rather than retype it. Blank deletes the key.
+export function setTagExpression(
+  app: App,
+  listSource: ListStateSource,
+  expression: string,
+  keys: TagKeys,
+  step?: MutationStep,
+): Promise<void> {
+  if (!listSource) return Promise.resolve();
+  const trimmed = expression.trim();
+  return updateListState(app, listSource, (fm) => {
+    if (trimmed !== "") fm[keys.listTagsExpressionProperty] = trimmed;
+    else delete fm[keys.listTagsExpressionProperty];
+  }, step ?? "Change tag expression");
 }
 
 // Appends; never re-sorts. Keeps `md_tags` as `[]` when it already existed
 // and stays empty (handled by removeEntryTag) - here we're only ever adding.
-export function addEntryTag(app: App, file: TFile, tag: string): Promise<void> {
+export function addEntryTag(
+  app: App,
+  file: TFile,
+  tag: string,
+  keys: TagKeys,
+  step?: MutationStep,
+): Promise<void> {
   if (!file) return Promise.resolve();
   const normalized = normalizeTagInput(tag);
   if (normalized === null || !isValidTagName(normalized)) return Promise.resolve();
 
-  return app.fileManager.processFrontMatter(file, (fm) => {
-    const tags = normalizeTagList(fm[TAGS_PROPERTY]);
-    if (hasTag(tags, normalized)) return;
-    tags.push(normalized);
-    fm[TAGS_PROPERTY] = tags;
-  });
+  return writeFrontmatter(
+    app,
+    file,
+    (fm) => {
+      const tags = normalizeTagList(fm[keys.tagsProperty]);
+      if (hasTag(tags, normalized)) return;
+      tags.push(normalized);
+      fm[keys.tagsProperty] = tags;
+    },
+    step ?? `Add tag ${normalized}`,
+  );
 }
 
 // `md_tags` keeps `[]` when the last tag is removed - the note still "has a
 // tags property" (unlike the filter keys, which get deleted when empty).
-export function removeEntryTag(app: App, file: TFile, tag: string): Promise<void> {
+export function removeEntryTag(
+  app: App,
+  file: TFile,
+  tag: string,
+  keys: TagKeys,
+  step?: MutationStep,
+): Promise<void> {
   if (!file) return Promise.resolve();
 
-  return app.fileManager.processFrontMatter(file, (fm) => {
-    const tags = normalizeTagList(fm[TAGS_PROPERTY]);
-    if (!hasTag(tags, tag)) return;
-    fm[TAGS_PROPERTY] = tags.filter((t) => !sameTag(t, tag));
-  });
+  return writeFrontmatter(
+    app,
+    file,
+    (fm) => {
+      const tags = normalizeTagList(fm[keys.tagsProperty]);
+      if (!hasTag(tags, tag)) return;
+      fm[keys.tagsProperty] = tags.filter((t) => !sameTag(t, tag));
+    },
+    step ?? `Remove tag ${tag}`,
+  );
 }
 
 // Never deletes the vocabulary key, even indirectly - this function only
 // ever appends.
-export function addToVocabulary(app: App, listFile: TFile, tag: string): Promise<void> {
-  if (!listFile) return Promise.resolve();
+export function addToVocabulary(
+  app: App,
+  listSource: ListStateSource,
+  tag: string,
+  keys: TagKeys,
+  step?: MutationStep,
+): Promise<void> {
+  if (!listSource) return Promise.resolve();
   const normalized = normalizeTagInput(tag);
   if (normalized === null || !isValidTagName(normalized)) return Promise.resolve();
 
-  return app.fileManager.processFrontMatter(listFile, (fm) => {
-    const vocabulary = normalizeTagList(fm[LIST_TAGS_PROPERTY]);
+  return updateListState(app, listSource, (fm) => {
+    const vocabulary = normalizeTagList(fm[keys.listTagsProperty]);
     if (hasTag(vocabulary, normalized)) return;
     vocabulary.push(normalized);
-    fm[LIST_TAGS_PROPERTY] = vocabulary;
-  });
+    fm[keys.listTagsProperty] = vocabulary;
+  }, step ?? `Create tag ${normalized}`);
 }
@@ -0,0 +1,98 @@
+// Numbers behind the target dashboard: per roster target and per group, how
+// many entries are still pending (in md_targets, not in md_targets_done),
+// how many are done, and the minutes left in the pending ones.
+//
+// Removed entries (md_is_done) count as done for nobody and pending for
+// nobody - they're off the list. A group counts each entry once: pending if
+// anyone in it (nested groups included) still has it queued, done if someone
+// finished it and nobody has it pending.
+import {
+  groupAndDescendants,
+  topLevelGroups,
+  type DefinedTarget,
+  type GroupDef,
+  type Roster,
+} from "./targetTypes";
+
+export interface DashboardEntry {
+  // Canonical target values (aliases already resolved).
+  targets: string[];
+  done: string[];
+  minutes: number | null;
+  removed: boolean;
+}
+
+export interface ProgressCounts {
+  active: number;
+  done: number;
+  minutes: number;
+}
+
+export interface TargetProgress extends ProgressCounts {
+  target: DefinedTarget;
+}
+
+export interface GroupProgress extends ProgressCounts {
+  group: GroupDef;
+  // Nesting level, 0 at the top; rows come in tree order.
+  depth: number;
+}
+
+export interface Dashboard {
+  targets: TargetProgress[];
+  groups: GroupProgress[];
+}
+
+function isPending(entry: DashboardEntry, value: string): boolean {
+  return entry.targets.includes(value) && !entry.done.includes(value);
+}
+
+function countFor(entries: DashboardEntry[], values: Set<string>): ProgressCounts {
+  const counts: ProgressCounts = { active: 0, done: 0, minutes: 0 };
+  for (const entry of entries) {
+    if (entry.removed) continue;
+    if ([...values].some((v) => isPending(entry, v))) {
+      counts.active++;
+      counts.minutes += entry.minutes ?? 0;
+    } else if (entry.done.some((v) => values.has(v))) {
+      counts.done++;
+    }
+  }
+  return counts;
+}
+
+// Groups depth-first from the top level, children after their parent.
+function groupsInTreeOrder(groups: GroupDef[]): { group: GroupDef; depth: number }[] {
+  const ordered: { group: GroupDef; depth: number }[] = [];
+  const seen = new Set<string>();
+  const visit = (group: GroupDef, depth: number) => {
+    if (seen.has(group.value)) return;
+    seen.add(group.value);
+    ordered.push({ group, depth });
+    for (const child of groups.filter((g) => g.parent === group.value)) visit(child, depth + 1);
+  };
+  for (const group of topLevelGroups(groups)) visit(group, 0);
+  return ordered;
+}
+
+export function buildDashboard(roster: Roster, entries: DashboardEntry[]): Dashboard {
+  return {
+    targets: roster.targets.map((target) => ({
+      target,
+      ...countFor(entries, new Set([target.value])),
+    })),
+    groups: groupsInTreeOrder(roster.groups).map(({ group, depth }) => {
+      const groupValues = groupAndDescendants(roster.groups, group.value);
+      const members = roster.targets.filter((t) => t.groups.some((g) => groupValues.has(g)));
+      return { group, depth, ...countFor(entries, new Set(members.map((m) => m.value))) };
+    }),
+  };
+}
+
+// "1h 35m", "45m", "0m".
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+}
@@ -1,67 +1,221 @@
-import { App, TFile, parseYaml } from "obsidian";
+import { App, TFile, normalizePath, parseYaml } from "obsidian";
+import { writeFrontmatter, type MutationStep } from "../mutations";
+import { readListState, type ListStateSource } from "./listState";
 import {
-  DEFAULT_TARGETS_SOURCE_PATH,
   EMPTY_ROSTER,
-  ROSTER_GROUPS_KEY,
-  ROSTER_PEOPLE_KEY,
-  TARGETS_SOURCE_PATH_PROPERTY,
   type DefinedTarget,
   type GroupDef,
   type Roster,
+  type RosterKeys,
 } from "./targetTypes";
 
+export interface RosterLoad {
+  // Merged across `files`.
+  roster: Roster;
+  // The config notes actually read, in merge order.
+  files: TFile[];
+  // Human-readable problems met while loading: a bad source path, unreadable
+  // YAML, skipped items.
+  issues: string[];
+}
+
 const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---/;
 
-// Loads the groups/people roster from a vault config note. The note path comes
-// from the active list note's `md_targets_source_path` frontmatter, falling back
-// to DEFAULT_TARGETS_SOURCE_PATH. The config note is read with vault.read +
-// parseYaml (not metadataCache) so nested arrays-of-objects parse reliably.
+// Loads the groups/people roster from one or more vault config notes. The
+// note path comes from the view's list state `md_targets_source_path` (see
+// listState.ts) - a single path or a list of them, merged in order so a
+// personal roster can extend a shared one - falling back to the configured
+// default path (both keys remappable via RosterKeys). Config notes are read
+// with vault.read + parseYaml (not metadataCache) so nested arrays-of-objects
+// parse reliably. Writes (the roster editor) go through processFrontMatter,
+// which emits valid YAML and leaves the rest of the note alone.
+//
+// Anything the loader has to skip or fall back on is reported in
+// RosterLoad.issues for the diagnostics panel, not just logged.
 export class TargetRoster {
-  static async load(app: App, activeFile: TFile | undefined): Promise<Roster> {
-    const file = TargetRoster.resolveConfigFile(app, activeFile);
-    if (!file) return EMPTY_ROSTER;
+  static async load(
+    app: App,
+    listSource: ListStateSource | null,
+    keys: RosterKeys,
+  ): Promise<Roster> {
+    return (await TargetRoster.inspect(app, listSource, keys)).roster;
+  }
+
+  static async inspect(
+    app: App,
+    listSource: ListStateSource | null,
+    keys: RosterKeys,
+  ): Promise<RosterLoad> {
+    const issues: string[] = [];
+    const files = TargetRoster.resolveConfigFiles(app, listSource, keys);
+    const fellBack = files.length === 1 && files[0].path === keys.defaultTargetsSourcePath;
+    for (const path of TargetRoster.getConfiguredPaths(app, listSource, keys)) {
+      if (files.some((f) => f.path === path)) continue;
+      issues.push(
+        `${keys.targetsSourcePathProperty} points at "${path}", which isn't a note` +
+          (fellBack ? ` - using ${keys.defaultTargetsSourcePath} instead.` : "."),
+      );
+    }
+
+    const rosters: Roster[] = [];
+    for (const file of files) {
+      // Prefixed with the note only when there's more than one to tell apart.
+      const fileIssues: string[] = [];
+      rosters.push(await TargetRoster.readFile(app, file, keys, fileIssues));
+      issues.push(...fileIssues.map((i) => (files.length > 1 ? `${file.path}: ${i}` : i)));
+    }
+    return { roster: TargetRoster.merge(rosters), files, issues };
+  }
 
+  // One config note's roster, unmerged - what the roster editor edits.
+  static async readFile(
+    app: App,
+    file: TFile,
+    keys: RosterKeys,
+    issues: string[],
+  ): Promise<Roster> {
     let roster: Roster = EMPTY_ROSTER;
     try {
       const content = await app.vault.read(file);
-      const frontmatter = TargetRoster.parseFrontmatter(content);
+      const frontmatter = TargetRoster.parseFrontmatter(content, issues);
       if (frontmatter) {
         roster = {
-          groups: TargetRoster.normalizeGroups(frontmatter[ROSTER_GROUPS_KEY]),
-          targets: TargetRoster.normalizeTargets(frontmatter[ROSTER_PEOPLE_KEY]),
+          groups: TargetRoster.normalizeGroups(frontmatter[keys.rosterGroupsKey], keys.rosterGroupsKey, issues),
+          targets: TargetRoster.normalizeTargets(frontmatter[keys.rosterPeopleKey], keys.rosterPeopleKey, issues),
         };
+      } else if (issues.length === 0) {
+        issues.push(`${file.path} has no frontmatter.`);
       }
     } catch (error) {
       console.error("[TargetRoster] Failed to load roster", error);
+      issues.push(`Couldn't read ${file.path}: ${error instanceof Error ? error.message : String(error)}`);
     }
     return roster;
   }
 
-  private static resolveConfigFile(
+  // Every path whose change can alter what load() returns: the configured
+  // notes and the default they fall back to.
+  static watchedPaths(app: App, listSource: ListStateSource | null, keys: RosterKeys): string[] {
+    return [
+      ...TargetRoster.getConfiguredPaths(app, listSource, keys),
+      keys.defaultTargetsSourcePath,
+    ];
+  }
+
+  // Later notes extend earlier ones. An entry whose value is already known
+  // stays where it was first listed; its scalar fields take the later note's
+  // value when that one is set, and its lists (groups, aliases) are unioned.
+  private static merge(rosters: Roster[]): Roster {
+    if (rosters.length === 1) return rosters[0];
+    const groups = new Map<string, GroupDef>();
+    const targets = new Map<string, DefinedTarget>();
+    for (const roster of rosters) {
+      for (const group of roster.groups) {
+        const known = groups.get(group.value);
+        groups.set(
+          group.value,
+          known
+            ? {
+                value: group.value,
+                label: group.label || known.label,
+                parent: group.parent || known.parent,
+                color: group.color || known.color,
+              }
+            : group,
+        );
+      }
+      for (const target of roster.targets) {
+        const known = targets.get(target.value);
+        targets.set(
+          target.value,
+          known
+            ? {
+                value: target.value,
+                icon: target.icon || known.icon,
+                groups: [...new Set([...known.groups, ...target.groups])],
+                aliases: [...new Set([...known.aliases, ...target.aliases])],
+                color: target.color || known.color,
+              }
+            : target,
+        );
+      }
+    }
+    return { groups: [...groups.values()], targets: [...targets.values()] };
+  }
+
+  // Replaces both roster keys with `roster`, in its order. Groups are always
+  // written with a label; optional fields that are unset drop their key, so a
+  // save round-trips through normalizeGroups/normalizeTargets unchanged.
+  static save(
     app: App,
-    activeFile: TFile | undefined,
-  ): TFile | undefined {
-    const configuredPath = TargetRoster.getConfiguredPath(app, activeFile);
-    let file = TargetRoster.getFileAtPath(
+    file: TFile,
+    roster: Roster,
+    keys: RosterKeys,
+    step: MutationStep | string,
+  ): Promise<void> {
+    return writeFrontmatter(
       app,
-      configuredPath ?? DEFAULT_TARGETS_SOURCE_PATH,
+      file,
+      (frontmatter) => {
+        frontmatter[keys.rosterGroupsKey] = roster.groups.map((g) => ({
+          value: g.value,
+          label: g.label,
+          ...(g.parent ? { parent: g.parent } : {}),
+          ...(g.color ? { color: g.color } : {}),
+        }));
+        frontmatter[keys.rosterPeopleKey] = roster.targets.map((t) => ({
+          value: t.value,
+          ...(t.icon ? { icon: t.icon } : {}),
+          groups: [...t.groups],
+          ...(t.aliases.length > 0 ? { aliases: [...t.aliases] } : {}),
+          ...(t.color ? { color: t.color } : {}),
+        }));
+      },
+      step,
     );
-    // A configured-but-invalid path still falls back to the default note.
-    if (!file && configuredPath) {
-      file = TargetRoster.getFileAtPath(app, DEFAULT_TARGETS_SOURCE_PATH);
+  }
+
+  // Where a new config note goes when none resolves: the first configured
+  // path if there is one, else the default.
+  static configPath(app: App, listSource: ListStateSource | null, keys: RosterKeys): string {
+    return TargetRoster.getConfiguredPaths(app, listSource, keys)[0] ?? keys.defaultTargetsSourcePath;
+  }
+
+  // Creates an empty config note (and its folder) at `path`.
+  static async createConfigFile(app: App, path: string): Promise<TFile> {
+    const normalized = normalizePath(path);
+    const folder = normalized.includes("/") ? normalized.slice(0, normalized.lastIndexOf("/")) : "";
+    if (folder && !app.vault.getAbstractFileByPath(folder)) {
+      await app.vault.createFolder(folder);
     }
-    return file;
+    return app.vault.create(normalized, "---\n---\n");
   }
 
-  private static getConfiguredPath(
+  // The configured notes that exist, in order. When none of them do (or none
+  // is configured), the default note alone.
+  static resolveConfigFiles(
     app: App,
-    activeFile: TFile | undefined,
-  ): string | undefined {
-    if (!activeFile) return undefined;
-    const frontmatter = app.metadataCache.getFileCache(activeFile)?.frontmatter;
-    const value = frontmatter?.[TARGETS_SOURCE_PATH_PROPERTY];
-    const isUsable = typeof value === "string" && value.trim() !== "";
-    return isUsable ? value.trim() : undefined;
+    listSource: ListStateSource | null,
+    keys: RosterKeys,
+  ): TFile[] {
+    const files = TargetRoster.getConfiguredPaths(app, listSource, keys)
+      .map((path) => TargetRoster.getFileAtPath(app, path))
+      .filter((file): file is TFile => file !== undefined);
+    if (files.length > 0) return files;
+    const fallback = TargetRoster.getFileAtPath(app, keys.defaultTargetsSourcePath);
+    return fallback ? [fallback] : [];
+  }
+
+  private static getConfiguredPaths(
+    app: App,
+    listSource: ListStateSource | null,
+    keys: RosterKeys,
+  ): string[] {
+    const value = readListState(app, listSource)?.[keys.targetsSourcePathProperty];
+    const paths = TargetRoster.coerceStringArray(value)
+      .map((p) => p.trim())
+      .filter((p) => p !== "");
+    return [...new Set(paths)];
   }
 
   private static getFileAtPath(app: App, path: string): TFile | undefined {
@@ -71,6 +225,7 @@ export class TargetRoster {
 
   private static parseFrontmatter(
     content: string,
+    issues: string[],
   ): Record<string, unknown> | undefined {
     // Strip a leading UTF-8 BOM so the frontmatter still anchors at offset 0.
     const match = content.replace(/^\uFEFF/, "").match(FRONTMATTER_RE);
@@ -85,44 +240,66 @@ export class TargetRoster {
           : undefined;
     } catch (error) {
       console.error("[TargetRoster] Failed to parse YAML frontmatter", error);
+      issues.push(`The frontmatter isn't valid YAML: ${error instanceof Error ? error.message : String(error)}`);
     }
     return result;
   }
 
-  private static normalizeGroups(raw: unknown): GroupDef[] {
-    if (!Array.isArray(raw)) return [];
+  // Short, single-line rendering of a skipped item for an issue message.
+  private static describeItem(item: unknown): string {
+    const text = JSON.stringify(item) ?? String(item);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  }
+
+  private static normalizeGroups(raw: unknown, key: string, issues: string[]): GroupDef[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+      issues.push(`${key} isn't a list - no groups loaded.`);
+      return [];
+    }
 
     const groups: GroupDef[] = [];
-    for (const item of raw) {
+    raw.forEach((item: unknown, index) => {
       if (typeof item === "string") {
-        groups.push({ value: item, label: item });
-      } else if (item && typeof item === "object") {
+        groups.push({ value: item, label: item, parent: "", color: "" });
+      } else if (item && typeof item === "object" && typeof (item as Record<string, unknown>).value === "string") {
         const obj = item as Record<string, unknown>;
-        if (typeof obj.value === "string") {
-          const label = typeof obj.label === "string" ? obj.label : obj.value;
-          groups.push({ value: obj.value, label });
-        }
+        const value = obj.value as string;
+        groups.push({
+          value,
+          label: typeof obj.label === "string" ? obj.label : value,
+          parent: typeof obj.parent === "string" ? obj.parent : "",
+          color: typeof obj.color === "string" ? obj.color : "",
+        });
+      } else {
+        issues.push(`Skipped group #${index + 1} (no text value): ${TargetRoster.describeItem(item)}`);
       }
-    }
+    });
     return groups;
   }
 
-  private static normalizeTargets(raw: unknown): DefinedTarget[] {
-    if (!Array.isArray(raw)) return [];
+  private static normalizeTargets(raw: unknown, key: string, issues: string[]): DefinedTarget[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+      issues.push(`${key} isn't a list - no people loaded.`);
+      return [];
+    }
 
     const targets: DefinedTarget[] = [];
-    for (const item of raw) {
-      if (item && typeof item === "object") {
+    raw.forEach((item: unknown, index) => {
+      if (item && typeof item === "object" && typeof (item as Record<string, unknown>).value === "string") {
         const obj = item as Record<string, unknown>;
-        if (typeof obj.value === "string") {
-          targets.push({
-            value: obj.value,
-            icon: typeof obj.icon === "string" ? obj.icon : "",
-            groups: TargetRoster.coerceStringArray(obj.groups),
-          });
-        }
+        targets.push({
+          value: obj.value as string,
+          icon: typeof obj.icon === "string" ? obj.icon : "",
+          groups: TargetRoster.coerceStringArray(obj.groups),
+          aliases: TargetRoster.coerceStringArray(obj.aliases),
+          color: typeof obj.color === "string" ? obj.color : "",
+        });
+      } else {
+        issues.push(`Skipped person #${index + 1} (needs a text value): ${TargetRoster.describeItem(item)}`);
       }
-    }
+    });
     return targets;
   }
 
@@ -1,13 +1,23 @@
 // Group identity is a plain string (the group value). Display label may differ.
+// Groups nest through `parent` ("Kids" under "Family"); membership of a group
+// includes everyone in the groups below it.
 export interface GroupDef {
   value: string;
   label: string;
+  // Value of the enclosing group; "" at the top level.
+  parent: string;
+  // Any CSS color; "" for the theme default. Same for DefinedTarget.color.
+  color: string;
 }
 
 export interface DefinedTarget {
   value: string;
   icon: string;
   groups: string[];
+  // Other spellings of `value` already used in md_targets / md_targets_done.
+  // Matched when reading; writes always use `value`.
+  aliases: string[];
+  color: string;
 }
 
 export interface Roster {
@@ -15,7 +25,8 @@ export interface Roster {
   targets: DefinedTarget[];
 }
 
-// Active list note frontmatter key pointing at the roster config note.
+// Active list note frontmatter key pointing at the roster config note - or a
+// list of them, merged in order (see TargetRoster.inspect).
 export const TARGETS_SOURCE_PATH_PROPERTY = "md_targets_source_path";
 
 // Fallback config note used when the source path is missing or unreadable.
@@ -27,8 +38,71 @@ export const DEFAULT_TARGETS_SOURCE_PATH = "meta/Targets.md";
 export const ROSTER_GROUPS_KEY = "md_targets_groups";
 export const ROSTER_PEOPLE_KEY = "md_targets_people";
 
+// Runtime keys for locating and reading the roster; the constants above are the
+// defaults, remappable from the plugin settings tab.
+export interface RosterKeys {
+  targetsSourcePathProperty: string;
+  defaultTargetsSourcePath: string;
+  rosterGroupsKey: string;
+  rosterPeopleKey: string;
+}
+
+export const DEFAULT_ROSTER_KEYS: RosterKeys = {
+  targetsSourcePathProperty: TARGETS_SOURCE_PATH_PROPERTY,
+  defaultTargetsSourcePath: DEFAULT_TARGETS_SOURCE_PATH,
+  rosterGroupsKey: ROSTER_GROUPS_KEY,
+  rosterPeopleKey: ROSTER_PEOPLE_KEY,
+};
+
 export const EMPTY_ROSTER: Roster = { groups: [], targets: [] };
 
 export function formatTarget(target: DefinedTarget): string {
   return target.icon ? `${target.icon} ${target.value}` : target.value;
 }
+
+export function targetMatches(target: DefinedTarget, value: string): boolean {
+  return target.value === value || target.aliases.includes(value);
+}
+
+// Maps aliases to their target's value (unknown values pass through) and
+// drops the duplicates that leaves, first occurrence kept.
+export function canonicalTargetValues(targets: DefinedTarget[], values: string[]): string[] {
+  const byAlias = new Map<string, string>();
+  for (const target of targets) {
+    for (const alias of target.aliases) byAlias.set(alias, target.value);
+  }
+  return [...new Set(values.map((v) => byAlias.get(v) ?? v))];
+}
+
+// `value` and every group nested below it. Tolerates parent cycles.
+export function groupAndDescendants(groups: GroupDef[], value: string): Set<string> {
+  const result = new Set([value]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const group of groups) {
+      if (!result.has(group.value) && result.has(group.parent)) {
+        result.add(group.value);
+        grew = true;
+      }
+    }
+  }
+  return result;
+}
+
+// Everyone in the group or any group below it, in roster order.
+export function groupMembers(
+  groups: GroupDef[],
+  targets: DefinedTarget[],
+  value: string,
+): DefinedTarget[] {
+  const values = groupAndDescendants(groups, value);
+  return targets.filter((t) => t.groups.some((g) => values.has(g)));
+}
+
+// Groups with no parent - or a parent that isn't defined, so a typo never
+// hides a group.
+export function topLevelGroups(groups: GroupDef[]): GroupDef[] {
+  const values = new Set(groups.map((g) => g.value));
+  return groups.filter((g) => g.parent === "" || !values.has(g.parent));
+}
@@ -1,12 +1,70 @@
-import { BasesView, QueryController, type BasesEntry } from "obsidian";
+import {
+  BasesView,
+  QueryController,
+  TFile,
+  parsePropertyId,
+  type BasesEntry,
+} from "obsidian";
 import type { BasesPropertyId, ViewOption } from "obsidian";
 import { mount, unmount } from "svelte";
 import { writable, type Writable } from "svelte/store";
 import TargetView from "./targetView.svelte";
+import type { AdvancedListSettings } from "../settings";
+import type { BoardMode } from "./boardModel";
+import {
+  COVER_SOURCES,
+  DEFAULT_COVER_SOURCES,
+  readCoverSources,
+  type CoverFit,
+  type CoverSource,
+} from "./cardCovers";
+import { findEmbeddingNote, listSourceKey, type ListStateSource } from "./listState";
+import type { RecentViews, TargetViewCommands } from "../viewCommands";
+
+export type CardSize = "small" | "medium" | "large";
+export type TargetLayout = "grid" | "board";
+
+// Per-view configuration from the Bases view options menu, so two embeds of
+// the same base can differ. Unset property options fall back to the plugin
+// settings keys.
+export interface TargetViewOptions {
+  targetsProperty?: string;
+  lengthProperty?: string;
+  imageKeys: string[];
+  // Where card covers come from, in order; empty for no covers.
+  coverSources: CoverSource[];
+  coverFit: CoverFit;
+  // Unset on views that predate the option: the list note's md_list_type
+  // (the old switch) decides instead.
+  showFilterBar?: boolean;
+  showDashboard: boolean;
+  cardSize: CardSize;
+  layout: TargetLayout;
+  boardColumns: BoardMode;
+  boardTags: string[];
+}
+
+export const DEFAULT_IMAGE_KEYS = ["md_image", "md_thumbnail", "md_thumb", "image"];
+
+export const DEFAULT_TARGET_VIEW_OPTIONS: TargetViewOptions = {
+  imageKeys: DEFAULT_IMAGE_KEYS,
+  coverSources: DEFAULT_COVER_SOURCES,
+  coverFit: "cover",
+  showDashboard: false,
+  cardSize: "medium",
+  layout: "grid",
+  boardColumns: "target",
+  boardTags: [],
+};
 
 export interface TargetViewStoreData {
   entries: BasesEntry[];
   properties: BasesPropertyId[];
+  options: TargetViewOptions;
+  listSource: ListStateSource | null;
+  // Bumped on view-config list-state writes, which the metadata cache never
+  // sees.
+  listStateVersion: number;
 }
 
 export const TargetsViewType = "targets-view";
@@ -15,26 +73,49 @@ export class TargetsView extends BasesView {
   containerEl: HTMLElement;
   private component?: Record<string, any>;
   private targetViewStore: Writable<TargetViewStoreData>;
+  private settingsStore: Writable<AdvancedListSettings>;
+  private listSource: ListStateSource | null = null;
 
   private debugLog(message: string, ...args: unknown[]): void {
     console.log(`[ListAdvancedView] ${message}`, ...args);
   }
 
-  constructor(controller: QueryController, scrollEl: HTMLElement) {
+  constructor(
+    controller: QueryController,
+    scrollEl: HTMLElement,
+    settingsStore: Writable<AdvancedListSettings>,
+    private recentViews: RecentViews<TargetsView>,
+  ) {
     super(controller);
+    this.settingsStore = settingsStore;
     this.containerEl = scrollEl.createDiv({ cls: "is-loading", attr: { tabIndex: 0 } });
     // Initialize store with empty data
-    this.targetViewStore = writable({ entries: [], properties: [] });
+    this.targetViewStore = writable({
+      entries: [],
+      properties: [],
+      options: DEFAULT_TARGET_VIEW_OPTIONS,
+      listSource: null,
+      listStateVersion: 0,
+    });
   }
 
   onload(): void {
     // Create Svelte component once on load
     this.debugLog("onload");
     this.initializeComponent();
+    // An embed can move between notes (or the base can be dragged into the
+    // sidebar) without a data update.
+    this.registerEvent(
+      this.app.workspace.on("layout-change", () => this.refreshListSource()),
+    );
+    this.recentViews.touch(this);
+    this.registerDomEvent(this.containerEl, "focusin", () => this.recentViews.touch(this));
+    this.registerDomEvent(this.containerEl, "pointerdown", () => this.recentViews.touch(this));
   }
 
   onunload() {
     this.debugLog("onunload");
+    this.recentViews.remove(this);
     // Only destroy on unload
     if (this.component) {
       unmount(this.component);
@@ -44,6 +125,11 @@ export class TargetsView extends BasesView {
 
   onResize(): void {}
 
+  // What the component exports for the palette commands.
+  get commands(): TargetViewCommands | undefined {
+    return this.component as TargetViewCommands | undefined;
+  }
+
   public focus(): void {
     this.containerEl.focus({ preventScroll: true });
   }
@@ -71,6 +157,7 @@ export class TargetsView extends BasesView {
         target: this.containerEl,
         props: {
           targetViewStore: this.targetViewStore,
+          settingsStore: this.settingsStore,
           config: this.config,
           app: this.app,
           renderContext: this.app.renderContext,
@@ -95,6 +182,8 @@ export class TargetsView extends BasesView {
 
     const entries = this.data.data;
     const properties = this.config?.getOrder() || [];
+    const options = this.readViewOptions();
+    const listSource = this.resolveListSource();
 
     this.debugLog("Updating component props", {
       entries: entries.length,
@@ -102,10 +191,223 @@ export class TargetsView extends BasesView {
     });
 
     // Update store - component stays mounted and reacts to changes
-    this.targetViewStore.set({ entries, properties });
+    this.targetViewStore.update((prev) => ({
+      entries,
+      properties,
+      options,
+      listSource,
+      listStateVersion: prev.listStateVersion,
+    }));
+  }
+
+  // Where this view's filters live, in fallback order:
+  //   1. the note picked in the "List note" view option,
+  //   2. the markdown note this view is embedded in,
+  //   3. the view's own config in the .base file (base opened directly or in
+  //      the sidebar).
+  // Never the active editor: switching tabs must not swap in another note's
+  // filters. The previous source object is reused while its identity holds so
+  // effects keyed on it don't re-run on every data update.
+  private resolveListSource(): ListStateSource {
+    const file =
+      this.getConfiguredListNote() ??
+      findEmbeddingNote(this.app, this.containerEl);
+    const next: ListStateSource = file
+      ? { kind: "note", file }
+      : {
+          kind: "view",
+          config: this.config,
+          notify: () => this.bumpListStateVersion(),
+        };
+    if (!this.listSource || listSourceKey(next) !== listSourceKey(this.listSource)) {
+      this.listSource = next;
+    }
+    return this.listSource;
+  }
+
+  private getConfiguredListNote(): TFile | null {
+    const value = this.config?.get("listNote");
+    if (typeof value !== "string" || value.trim() === "") return null;
+    const path = value.trim();
+    const file =
+      this.app.vault.getAbstractFileByPath(path) ??
+      this.app.metadataCache.getFirstLinkpathDest(path, "");
+    return file instanceof TFile ? file : null;
+  }
+
+  private refreshListSource(): void {
+    if (!this.component || !this.config) return;
+    const previous = this.listSource;
+    const listSource = this.resolveListSource();
+    if (listSource !== previous) {
+      this.targetViewStore.update((prev) => ({ ...prev, listSource }));
+    }
+  }
+
+  private bumpListStateVersion(): void {
+    this.targetViewStore.update((prev) => ({
+      ...prev,
+      listStateVersion: prev.listStateVersion + 1,
+    }));
+  }
+
+  // Bases re-runs onDataUpdated when a view option changes, so reading them
+  // here (rather than in the component) is enough to keep them live.
+  private readViewOptions(): TargetViewOptions {
+    if (!this.config) return DEFAULT_TARGET_VIEW_OPTIONS;
+
+    const imageKeys = this.config.get("imageKeys");
+    const coverFit = this.config.get("coverFit");
+    const showFilterBar = this.config.get("showFilterBar");
+    const showDashboard = this.config.get("showDashboard");
+    const cardSize = this.config.get("cardSize");
+    const layout = this.config.get("layout");
+    const boardColumns = this.config.get("boardColumns");
+    const boardTags = this.config.get("boardTags");
+    return {
+      targetsProperty: this.getNotePropertyName("targetsProperty"),
+      lengthProperty: this.getNotePropertyName("lengthProperty"),
+      imageKeys: Array.isArray(imageKeys)
+        ? imageKeys.filter((k): k is string => typeof k === "string")
+        : DEFAULT_IMAGE_KEYS,
+      coverSources: readCoverSources(this.config.get("coverSources")),
+      coverFit:
+        coverFit === "contain" || coverFit === "icon"
+          ? coverFit
+          : DEFAULT_TARGET_VIEW_OPTIONS.coverFit,
+      showFilterBar: typeof showFilterBar === "boolean" ? showFilterBar : undefined,
+      showDashboard:
+        typeof showDashboard === "boolean"
+          ? showDashboard
+          : DEFAULT_TARGET_VIEW_OPTIONS.showDashboard,
+      cardSize:
+        cardSize === "small" || cardSize === "large" || cardSize === "medium"
+          ? cardSize
+          : DEFAULT_TARGET_VIEW_OPTIONS.cardSize,
+      layout: layout === "board" ? "board" : DEFAULT_TARGET_VIEW_OPTIONS.layout,
+      boardColumns:
+        boardColumns === "tags" || boardColumns === "done" || boardColumns === "target"
+          ? boardColumns
+          : DEFAULT_TARGET_VIEW_OPTIONS.boardColumns,
+      boardTags: Array.isArray(boardTags)
+        ? boardTags.filter((k): k is string => typeof k === "string")
+        : DEFAULT_TARGET_VIEW_OPTIONS.boardTags,
+    };
+  }
+
+  // Frontmatter name of a property option, e.g. `note.md_targets` ->
+  // `md_targets`. Only note properties can be written back.
+  private getNotePropertyName(key: string): string | undefined {
+    const propertyId = this.config.getAsPropertyId(key);
+    if (!propertyId) return undefined;
+    const parsed = parsePropertyId(propertyId);
+    return parsed.type === "note" ? parsed.name : undefined;
   }
 
   static getViewOptions(): ViewOption[] {
-    return [];
+    const isNoteProperty = (prop: BasesPropertyId) => prop.startsWith("note.");
+    return [
+      {
+        type: "toggle",
+        key: "showFilterBar",
+        displayName: "Show filter bar",
+      },
+      {
+        type: "toggle",
+        key: "showDashboard",
+        displayName: "Show targets overview",
+        default: DEFAULT_TARGET_VIEW_OPTIONS.showDashboard,
+      },
+      {
+        type: "dropdown",
+        key: "cardSize",
+        displayName: "Card size",
+        default: DEFAULT_TARGET_VIEW_OPTIONS.cardSize,
+        options: { small: "Small", medium: "Medium", large: "Large" },
+      },
+      {
+        type: "dropdown",
+        key: "layout",
+        displayName: "Layout",
+        default: DEFAULT_TARGET_VIEW_OPTIONS.layout,
+        options: { grid: "Cards", board: "Board" },
+      },
+      {
+        type: "group",
+        displayName: "Covers",
+        items: [
+          {
+            type: "multitext",
+            key: "coverSources",
+            displayName: `Sources, in order (${COVER_SOURCES.join(", ")} or none)`,
+            default: DEFAULT_COVER_SOURCES,
+          },
+          {
+            type: "dropdown",
+            key: "coverFit",
+            displayName: "Fit",
+            default: DEFAULT_TARGET_VIEW_OPTIONS.coverFit,
+            options: { cover: "Fill", contain: "Whole image", icon: "Icon" },
+          },
+          {
+            type: "multitext",
+            key: "imageKeys",
+            displayName: "Image source keys",
+            default: DEFAULT_IMAGE_KEYS,
+          },
+        ],
+      },
+      {
+        type: "group",
+        displayName: "Board",
+        shouldHide: (config) => config.get("layout") !== "board",
+        items: [
+          {
+            type: "dropdown",
+            key: "boardColumns",
+            displayName: "Columns",
+            default: DEFAULT_TARGET_VIEW_OPTIONS.boardColumns,
+            options: {
+              target: "Active target state",
+              tags: "Tags",
+              done: "Done flag",
+            },
+          },
+          {
+            type: "multitext",
+            key: "boardTags",
+            displayName: "Column tags",
+            shouldHide: (config) => config.get("boardColumns") !== "tags",
+          },
+        ],
+      },
+      {
+        type: "file",
+        key: "listNote",
+        displayName: "List note",
+        placeholder: "Embedding note",
+        filter: (file) => file.extension === "md",
+      },
+      {
+        type: "group",
+        displayName: "Properties",
+        items: [
+          {
+            type: "property",
+            key: "targetsProperty",
+            displayName: "Targets property",
+            placeholder: "Plugin default",
+            filter: isNoteProperty,
+          },
+          {
+            type: "property",
+            key: "lengthProperty",
+            displayName: "Length property",
+            placeholder: "Plugin default",
+            filter: isNoteProperty,
+          },
+        ],
+      },
+    ];
   }
 }
@@ -0,0 +1,93 @@
+// "Fill my time": from the cards on screen, propose a set whose lengths add
+// up close to a budget without going over it. Cards without a known length
+// can't be budgeted and are left to the caller to filter out.
+//
+// The strategy only decides the order cards are considered in; the fill is
+// then greedy (take whatever still fits), followed by one pass of single
+// swaps that close the remaining gap. Good enough for a handful of minutes
+// over a few hundred cards, and it keeps the strategy's preference visible:
+// "oldest" really does lead with the oldest cards.
+
+export type PickStrategy = "random" | "oldest";
+
+export interface TimeCandidate<T> {
+  item: T;
+  minutes: number;
+  // When the card was added (file creation time, ms).
+  added: number;
+}
+
+export interface TimePick<T> {
+  items: TimeCandidate<T>[];
+  minutes: number;
+}
+
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+function ordered<T>(
+  candidates: TimeCandidate<T>[],
+  strategy: PickStrategy,
+  random: () => number,
+): TimeCandidate<T>[] {
+  return strategy === "random"
+    ? shuffled(candidates, random)
+    : [...candidates].sort((a, b) => a.added - b.added);
+}
+
+// `avoid` holds items from the previous proposal; they're considered last,
+// which is what makes a reshuffle of "oldest" move on to the next ones.
+export function pickForBudget<T>(
+  candidates: TimeCandidate<T>[],
+  budget: number,
+  strategy: PickStrategy,
+  avoid: ReadonlySet<T> = new Set(),
+  random: () => number = Math.random,
+): TimePick<T> {
+  const usable = ordered(
+    candidates.filter((c) => c.minutes > 0),
+    strategy,
+    random,
+  );
+  const queue = [
+    ...usable.filter((c) => !avoid.has(c.item)),
+    ...usable.filter((c) => avoid.has(c.item)),
+  ];
+
+  const taken: TimeCandidate<T>[] = [];
+  const rest: TimeCandidate<T>[] = [];
+  let total = 0;
+  for (const candidate of queue) {
+    if (total + candidate.minutes <= budget) {
+      taken.push(candidate);
+      total += candidate.minutes;
+    } else {
+      rest.push(candidate);
+    }
+  }
+
+  // Swap a taken card for a longer one left out when that gets closer.
+  for (let i = 0; i < taken.length && total < budget; i++) {
+    const gap = budget - total;
+    let best = -1;
+    let bestGain = 0;
+    rest.forEach((candidate, j) => {
+      const gain = candidate.minutes - taken[i].minutes;
+      if (gain > bestGain && gain <= gap) {
+        best = j;
+        bestGain = gain;
+      }
+    });
+    if (best === -1) continue;
+    [taken[i], rest[best]] = [rest[best], taken[i]];
+    total += bestGain;
+  }
+
+  return { items: taken, minutes: total };
+}
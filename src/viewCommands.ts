@@ -0,0 +1,52 @@
+// Command palette support for the list views. A command acts on "the focused
+// view", but opening the palette or pressing a hotkey from the editor moves
+// focus away - so each view reports interaction to a RecentViews tracker and
+// the commands use the most recent one still on screen.
+//
+// The Svelte components export the functions below; the view classes hand
+// them out through `commands`.
+import type { TagState } from "./targetView/tags/tagTypes";
+
+export interface TargetViewCommands {
+  // False when the filter bar is hidden and there is no search box.
+  focusSearch(): boolean;
+  cycleActiveTarget(): void;
+  clearAllFilters(): void;
+  tagFilterChoices(): { tag: string; state: TagState }[];
+  toggleTagFilter(tag: string): void;
+  showDoneHistory(): void;
+  // The card-level ones return false when no card has been focused or
+  // clicked yet (or it has since been filtered out).
+  markFocusedCardRead(): boolean;
+  // Also false when the card is already done; it never restores.
+  markFocusedCardDone(): boolean;
+  openFocusedCardLink(): boolean;
+}
+
+export interface GymViewCommands {
+  // False when no exercise is expanded or it has no value picked.
+  addSetToExpandedExercise(): boolean;
+  createTodaySession(): Promise<void>;
+}
+
+export class RecentViews<T extends { containerEl: HTMLElement }> {
+  private views: T[] = [];
+
+  // Moves `view` to the front; call on focus or pointer interaction.
+  touch(view: T): void {
+    this.views = [view, ...this.views.filter((v) => v !== view)];
+  }
+
+  remove(view: T): void {
+    this.views = this.views.filter((v) => v !== view);
+  }
+
+  // The most recently used view that is still attached and visible (a view
+  // in a background tab stays attached but has no layout).
+  get current(): T | null {
+    return (
+      this.views.find((v) => v.containerEl.isConnected && v.containerEl.offsetParent !== null) ??
+      null
+    );
+  }
+}